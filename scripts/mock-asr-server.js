@@ -0,0 +1,98 @@
+// 本地流式识别模拟服务器（开发调试用）
+// 按 src/api/streaming.ts 中的协议接收 PCM 音频，返回模拟的中间结果和最终结果
+//
+// 用法：
+//   npm run mock:asr
+//   在 .env.local 中设置 VITE_ASR_WS_URL=ws://localhost:8001/consultation/stream
+
+import { WebSocketServer } from 'ws'
+
+const PORT = Number(process.env.PORT) || 8001
+const PARTIAL_INTERVAL = 0.5 // 每收到 0.5 秒音频返回一次中间结果
+const FINAL_DELAY = 300 // 模拟最终识别耗时 (ms)
+
+const server = new WebSocketServer({ port: PORT })
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url ?? '/', `http://localhost:${PORT}`)
+  const conversationId = url.searchParams.get('conversation_id')
+  const sampleRate = Number(url.searchParams.get('sample_rate')) || 16000
+  console.log(`[模拟ASR] 新连接 ${url.pathname}，会话ID: ${conversationId}，采样率: ${sampleRate}`)
+
+  let messageId = 1
+  let segment = null // { id, samples, lastPartialAt, peak }
+
+  const send = (message) => {
+    socket.send(JSON.stringify(message))
+  }
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) {
+      if (!segment) return
+
+      const samples = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2))
+      for (const sample of samples) {
+        segment.peak = Math.max(segment.peak, Math.abs(sample) / 0x8000)
+      }
+      segment.samples += samples.length
+
+      const seconds = segment.samples / sampleRate
+      if (seconds - segment.lastPartialAt >= PARTIAL_INTERVAL) {
+        segment.lastPartialAt = seconds
+        send({
+          type: 'partial',
+          segment_id: segment.id,
+          text: `（模拟识别中）已收到 ${seconds.toFixed(1)} 秒语音`,
+        })
+      }
+      return
+    }
+
+    let message
+    try {
+      message = JSON.parse(data.toString())
+    } catch {
+      send({ type: 'error', message: '无法解析消息' })
+      return
+    }
+
+    switch (message.type) {
+      case 'start':
+        segment = { id: message.segment_id, samples: 0, lastPartialAt: 0, peak: 0 }
+        console.log(`[模拟ASR] ▶ 片段 ${message.segment_id} 开始`)
+        break
+      case 'end': {
+        if (!segment || segment.id !== message.segment_id) {
+          send({ type: 'error', segment_id: message.segment_id, message: '未知的片段' })
+          break
+        }
+        const finished = segment
+        segment = null
+        const seconds = finished.samples / sampleRate
+        console.log(`[模拟ASR] ◆ 片段 ${finished.id} 结束，时长 ${seconds.toFixed(1)} 秒`)
+        setTimeout(() => {
+          send({
+            type: 'final',
+            segment_id: finished.id,
+            text: `模拟转写：第 ${finished.id} 段语音，时长 ${seconds.toFixed(1)} 秒，峰值 ${(finished.peak * 100).toFixed(0)}%`,
+            message_id: messageId++,
+            results: [],
+          })
+        }, FINAL_DELAY)
+        break
+      }
+      case 'cancel':
+        console.log(`[模拟ASR] ✗ 片段 ${message.segment_id} 已取消`)
+        segment = null
+        break
+      default:
+        send({ type: 'error', message: `未知的消息类型: ${message.type}` })
+    }
+  })
+
+  socket.on('close', () => {
+    console.log(`[模拟ASR] 连接关闭，会话ID: ${conversationId}`)
+  })
+})
+
+console.log(`[模拟ASR] 已启动: ws://localhost:${PORT}/consultation/stream`)
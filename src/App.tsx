@@ -1,59 +1,230 @@
 import { useState, useEffect, useRef } from 'react'
 import { useAudioRecorder } from './hooks/useAudioRecorder'
-import { createConsultationSession, uploadAudio, SymptomMatch } from './api/consultation'
+import { useUploadQueue } from './hooks/useUploadQueue'
+import { useStreamingTranscription } from './hooks/useStreamingTranscription'
+import { useAudioInputDevices } from './hooks/useAudioInputDevices'
+import {
+  correctTranscript,
+  createConsultationSession,
+  isApiError,
+  submitSymptomFeedback,
+  submitTextConsultation,
+  SymptomMatch,
+  SymptomVerdict,
+  ConversationDetailResponse,
+} from './api/consultation'
+import { getAllQueueItems } from './api/uploadQueue'
+import { AudioFormat, DEFAULT_AUDIO_FORMAT, getEncoder, getSupportedEncoders, SegmentEncoder } from './audio/encoders'
+import { Speaker, SPEAKER_LABELS, SpeakerMode } from './audio/speaker'
+import { AUDIO_FILE_ACCEPT, decodeAudioFile, SEGMENT_SAMPLE_RATE, segmentSamples, SegmentationOptions } from './audio/audioFile'
+import { AudioRecorder } from './audio/recorder'
+import { getMockApiSettings, MockApiSettings, resetMockApiData, updateMockApiSettings } from './api/mock'
 import { AudioWaveform } from './components/AudioWaveform'
+import { EditableTranscript, TranscriptCorrectionStatus } from './components/EditableTranscript'
+import { MicrophoneSelect } from './components/MicrophoneSelect'
+import { TextConsultationInput } from './components/TextConsultationInput'
+import { ConsultationHistory } from './components/ConsultationHistory'
+import { DemoModeSettings } from './components/DemoModeSettings'
+import { ReportExport } from './components/ReportExport'
+import { SymptomBoard } from './components/SymptomBoard'
+import { useSymptomBoard } from './hooks/useSymptomBoard'
+import { buildConsultationReport, ConsultationReport, downloadFile } from './report/consultationReport'
+import { exportSessionArchive, getArchiveFilename, importSessionArchive, SessionArchiveError } from './report/sessionArchive'
 
 // 页面状态
-type PageState = 'home' | 'consulting'
+type PageState = 'home' | 'consulting' | 'history'
 
 // 转录消息类型
 interface TranscriptionMessage {
   id: string
+  seq: number // 对应语音片段的序号，用于按说话顺序排列
+  clipId?: string
   content: string
   timestamp: Date
+  speaker?: Speaker
+  continuesPrevious?: boolean // 超长语音强制切分出的后续片段，显示时与上一条拼接
+  serverMessageId?: number // 服务器上的消息 ID（流式识别的旧服务器可能不返回）
+  originalContent?: string // 医生修正前的识别原文
+  correctionStatus?: TranscriptCorrectionStatus
+  correctionError?: string
+  typed?: boolean // 文字输入（非语音识别）
 }
 
+// 语音片段上传状态
+type ClipUploadStatus = 'queued' | 'uploading' | 'transcribed' | 'failed'
+
 // 语音片段记录
 interface VoiceClip {
   id: string
+  seq: number // 片段序号（会话内按说话顺序递增）
   blob: Blob // 音频数据
   blobSize: number // KB
   duration: number // ms
   submitTime: Date
+  uploadStatus: ClipUploadStatus
+  uploadError?: string
+  uploadRejected?: boolean // 服务器拒绝了该片段（区别于网络中断）
+  audioFormat: AudioFormat // 编码格式
+  speaker: Speaker
   transcription?: string // 转录结果
+  originalTranscription?: string // 修正前的识别原文
+  continuesPrevious?: boolean // 由超长语音强制切分而来，与上一片段重叠
+  continuesNext?: boolean // 说话未结束被强制切分
+}
+
+// 默认静音阈值：电平 0-1（约 -45 dBFS），低于该电平视为静音；校准后由测得的环境噪声决定
+const DEFAULT_SILENCE_THRESHOLD = 0.10
+
+// 语音分段配置（实时录音与音频文件分析共用）
+const SEGMENTATION: SegmentationOptions = {
+  silenceThreshold: DEFAULT_SILENCE_THRESHOLD,
+  silenceDuration: 2000, // 静音 2 秒后提交（给说话留更多缓冲）
+  minSpeechDuration: 800, // 最小语音时长 0.8 秒，过滤过短的片段
+  maxSegmentDuration: 30000, // 连续说话超过 30 秒强制切分，避免单个片段过大
+  adaptiveThreshold: true, // 环境噪声变化时缓慢调整阈值
+}
+
+// 音频文件分析进度
+interface AudioFileImport {
+  fileName: string
+  phase: 'decoding' | 'segmenting' | 'uploading'
+  progress: number // 解码、分段阶段的进度 0-1（上传进度由片段状态计算）
+  segmentCount: number // 已切出的语音片段数
+}
+
+const AUDIO_IMPORT_PHASE_LABELS: Record<AudioFileImport['phase'], string> = {
+  decoding: '正在解码音频…',
+  segmenting: '正在切分语音片段…',
+  uploading: '正在识别',
+}
+
+// 片段上传状态标签
+const CLIP_STATUS_STYLES: Record<ClipUploadStatus, { label: string; className: string }> = {
+  queued: { label: '⏳ 排队', className: 'bg-gray-100 text-gray-600' },
+  uploading: { label: '↑ 上传中', className: 'bg-blue-100 text-blue-700' },
+  transcribed: { label: '✓', className: 'bg-green-100 text-green-700' },
+  failed: { label: '✗ 失败', className: 'bg-red-100 text-red-700' },
+}
+
+// 按序号插入消息，保证响应乱序返回时仍按说话顺序显示
+function insertMessageBySeq(messages: TranscriptionMessage[], message: TranscriptionMessage): TranscriptionMessage[] {
+  const index = messages.findIndex((m) => m.seq > message.seq)
+  if (index === -1) return [...messages, message]
+  return [...messages.slice(0, index), message, ...messages.slice(index)]
+}
+
+// 拼接强制切分的前后两段转录：去掉前段因切分产生的句末标点，
+// 以及两段重叠音频导致的重复文字
+function joinTranscripts(previous: string, next: string): string {
+  const head = previous.trimEnd().replace(/[。．.！!？?，,、]+$/, '')
+  let tail = next.trimStart()
+
+  const maxOverlap = Math.min(12, head.length, tail.length)
+  for (let length = maxOverlap; length >= 2; length--) {
+    if (head.endsWith(tail.slice(0, length))) {
+      tail = tail.slice(length)
+      break
+    }
+  }
+
+  // 英文等以空格分词的文字需要补空格
+  const needsSpace = /[A-Za-z0-9]$/.test(head) && /^[A-Za-z0-9]/.test(tail)
+  return head + (needsSpace ? ' ' : '') + tail
 }
 
-// 匹配的症状
-interface MatchedSymptom {
-  summary: string
-  confidence: number
-  description: string
+// 对话记录中显示的消息（可能由多条连续消息合并而成）
+interface DisplayMessage extends TranscriptionMessage {
+  sourceIds: string[] // 合并前的消息 ID
 }
 
+// 合并强制切分产生的连续消息，用于对话记录显示
+function mergeContinuedMessages(messages: TranscriptionMessage[]): DisplayMessage[] {
+  const merged: DisplayMessage[] = []
+  for (const message of messages) {
+    const last = merged.length > 0 ? merged[merged.length - 1] : null
+    if (message.continuesPrevious && last?.seq === message.seq - 1 && last.speaker === message.speaker) {
+      merged[merged.length - 1] = {
+        ...last,
+        seq: message.seq,
+        content: joinTranscripts(last.content, message.content),
+        sourceIds: [...last.sourceIds, message.id],
+      }
+    } else {
+      merged.push({ ...message, sourceIds: [message.id] })
+    }
+  }
+  return merged
+}
+
+// 对话记录中高亮定位消息的时长
+const MESSAGE_HIGHLIGHT_DURATION = 2000
+
 function App() {
   const [pageState, setPageState] = useState<PageState>('home')
   const [messages, setMessages] = useState<TranscriptionMessage[]>([])
-  const [symptoms, setSymptoms] = useState<MatchedSymptom[]>([])
+  const {
+    entries: symptomEntries,
+    addMatches: addSymptomMatches,
+    replaceMessageMatches: replaceSymptomMatches,
+    setFeedback: setSymptomFeedback,
+    restore: restoreSymptoms,
+    reset: resetSymptoms,
+  } = useSymptomBoard()
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null) // 从症状看板跳转定位的消息
   const [voiceClips, setVoiceClips] = useState<VoiceClip[]>([])
-  const [conversationId, setConversationId] = useState<number | null>(null)
-  const [isRecording, setIsRecording] = useState(false)
-  const [isPaused, setIsPaused] = useState(false)
+  const [conversation, setConversation] = useState<ConsultationReport['conversation'] | null>(null) // 当前会话信息
+  const [lastReport, setLastReport] = useState<ConsultationReport | null>(null) // 上次问诊结束时生成的报告
+  const [isReviewing, setIsReviewing] = useState(false) // 回放导入的会话存档（只读）
+  const [isArchiving, setIsArchiving] = useState(false) // 正在打包或读取存档
+  const [audioFileImport, setAudioFileImport] = useState<AudioFileImport | null>(null) // 分析中的音频文件
   const [isSpeaking, setIsSpeaking] = useState(false)
-  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null)
   const [playingClipId, setPlayingClipId] = useState<string | null>(null)
   const [playProgress, setPlayProgress] = useState(0) // 播放进度 0-100
   const [showVoiceClipsPanel, setShowVoiceClipsPanel] = useState(false) // 控制语音片段面板显示
+  const [useStreaming, setUseStreaming] = useState(false) // 流式识别（实时显示中间结果）
+  const [partialTranscript, setPartialTranscript] = useState<{ segmentId: number; text: string } | null>(null)
+  const [calibrateNoise, setCalibrateNoise] = useState(false) // 开始前校准环境噪声
+  const [isCalibrating, setIsCalibrating] = useState(false)
+  const [vadThreshold, setVadThreshold] = useState(DEFAULT_SILENCE_THRESHOLD) // 当前生效的静音阈值
+  const [noiseFloor, setNoiseFloor] = useState<number | null>(null) // 测得的环境噪声电平
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>(DEFAULT_AUDIO_FORMAT) // 本次问诊上传的音频格式
+  const [availableEncoders, setAvailableEncoders] = useState<SegmentEncoder[]>([])
+  const [speakerMode, setSpeakerMode] = useState<SpeakerMode>('push-to-talk') // 说话人识别方式
+  const [ignoreDoctorSymptoms, setIgnoreDoctorSymptoms] = useState(true) // 症状匹配忽略医生发言
+  const [isDoctorSpeaking, setIsDoctorSpeaking] = useState(false) // 按住“医生发言”按钮中
+  const [activeInputLabel, setActiveInputLabel] = useState<string | null>(null) // 录音实际使用的麦克风
+  const [mockSettings, setMockSettings] = useState<MockApiSettings>(getMockApiSettings) // 演示模式（模拟后端）
+  const {
+    devices: inputDevices,
+    selectedDeviceId,
+    selectDevice,
+    refresh: refreshInputDevices,
+  } = useAudioInputDevices()
   const conversationIdRef = useRef<number | null>(null) // 使用 ref 存储会话 ID，避免闭包问题
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const currentAudioUrlRef = useRef<string | null>(null) // 当前使用的音频 URL
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const voiceClipsEndRef = useRef<HTMLDivElement>(null)
+  const nextClipSeqRef = useRef(0) // 下一个语音片段的序号
+  const clipByBlobRef = useRef(new WeakMap<Blob, VoiceClip>()) // 录音 blob → 语音片段，用于入队时关联片段
+  const clipByStreamSegmentRef = useRef(new Map<number, VoiceClip>()) // 流式片段 ID → 语音片段
+  const correctionRequestsRef = useRef(new Map<string, AbortController>()) // 消息 ID → 进行中的转录修正请求
+  const isStreamingActiveRef = useRef(false) // 本次问诊是否已建立流式连接
+  const archiveInputRef = useRef<HTMLInputElement>(null)
+  const audioFileInputRef = useRef<HTMLInputElement>(null)
+  const replayInputRef = useRef<HTMLInputElement>(null)
+  const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null) // 消息高亮计时器
 
   // 自动滚动到底部
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
     voiceClipsEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [messages, voiceClips])
+  }, [messages, voiceClips, partialTranscript])
+
+  // 检测浏览器支持的音频编码格式
+  useEffect(() => {
+    void getSupportedEncoders().then(setAvailableEncoders)
+  }, [])
 
   // 清理音频播放器
   useEffect(() => {
@@ -69,8 +240,8 @@ function App() {
     }
   }, [])
 
-  // 播放语音片段
-  const handlePlayClip = (clip: VoiceClip) => {
+  // 播放语音片段（onEnded 在完整播放结束后调用，用于连续播放）
+  const handlePlayClip = (clip: VoiceClip, onEnded?: () => void) => {
     // 如果正在播放这个片段，则暂停
     if (playingClipId === clip.id && audioRef.current) {
       audioRef.current.pause()
@@ -118,6 +289,7 @@ function App() {
         URL.revokeObjectURL(currentAudioUrlRef.current)
         currentAudioUrlRef.current = null
       }
+      onEnded?.()
     }
 
     audio.onerror = (e) => {
@@ -147,14 +319,21 @@ function App() {
     setPlayingClipId(clip.id)
   }
 
+  // 按序号依次播放全部片段
+  const handlePlayAll = (index = 0) => {
+    const clips = [...voiceClips].sort((a, b) => a.seq - b.seq)
+    if (index >= clips.length) return
+    handlePlayClip(clips[index], () => {
+      handlePlayAll(index + 1)
+    })
+  }
+
   // 暂停/继续问诊
   const handlePauseResume = () => {
     if (isPaused) {
       resumeRecording()
-      setIsPaused(false)
     } else {
       pauseRecording()
-      setIsPaused(true)
     }
   }
 
@@ -164,7 +343,7 @@ function App() {
     const url = URL.createObjectURL(clip.blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `语音片段_${new Date().getTime()}.wav`
+    a.download = `语音片段_${new Date().getTime()}.${getEncoder(clip.audioFormat).extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -186,11 +365,265 @@ function App() {
     setPlayingClipId(null)
   }
 
-  // 临时存储当前语音片段的信息（用于 API 返回时更新转录文本）
-  const pendingClipIdRef = useRef<string | null>(null)
+  // 更新单个语音片段
+  const updateClip = (clipId: string, changes: Partial<VoiceClip>) => {
+    setVoiceClips((prev) =>
+      prev.map((clip) => (clip.id === clipId ? { ...clip, ...changes } : clip)),
+    )
+  }
+
+  // 将识别结果写入对话记录、语音片段和症状
+  const applyTranscription = (
+    target: { seq: number; clipId?: string; speaker?: Speaker; continuesPrevious?: boolean; typed?: boolean },
+    text: string,
+    results?: SymptomMatch[],
+    serverMessageId?: number,
+  ) => {
+    // 添加转录消息（按片段序号插入）
+    const messageId = `${Date.now()}-${Math.random()}`
+    if (text) {
+      setMessages((prev) =>
+        insertMessageBySeq(prev, {
+          id: messageId,
+          seq: target.seq,
+          clipId: target.clipId,
+          content: text,
+          timestamp: new Date(),
+          speaker: target.speaker,
+          continuesPrevious: target.continuesPrevious,
+          serverMessageId,
+          typed: target.typed,
+        }),
+      )
+    }
+
+    // 更新对应的语音片段的转录文本
+    if (target.clipId) {
+      updateClip(target.clipId, {
+        uploadStatus: 'transcribed',
+        uploadError: undefined,
+        transcription: text,
+      })
+    }
+
+    // 累积症状匹配信息（可忽略医生的提问，避免把问到的症状当成患者的症状）
+    if (target.speaker === 'doctor' && ignoreDoctorSymptoms) {
+      if (results && results.length > 0) {
+        console.log('[症状] 医生发言，忽略匹配结果')
+      }
+    } else if (results && results.length > 0) {
+      const symptomNames = results.map(r => r.summary).join(', ')
+      console.log('[症状] 匹配到的症状:', symptomNames)
+      addSymptomMatches(results, { messageId: text ? messageId : undefined, serverMessageId })
+    }
+  }
+
+  // 更新单条转录消息
+  const updateMessage = (messageId: string, changes: Partial<TranscriptionMessage>) => {
+    setMessages((prev) =>
+      prev.map((message) => (message.id === messageId ? { ...message, ...changes } : message)),
+    )
+  }
+
+  // 修正转录文本：保留识别原文，同步到服务器后按修正后的文本重新匹配症状
+  const handleCorrectTranscript = async (messageId: string, text: string) => {
+    const message = messages.find((m) => m.id === messageId)
+    if (!message) return
+    const cid = conversationIdRef.current
+    const serverMessageId = message.serverMessageId
+    const canSync = !isReviewing && cid !== null && serverMessageId !== undefined
+
+    updateMessage(messageId, {
+      content: text,
+      originalContent: message.originalContent ?? message.content,
+      correctionStatus: canSync ? 'saving' : 'local',
+      correctionError: undefined,
+    })
+    if (message.clipId) {
+      setVoiceClips((prev) =>
+        prev.map((clip) => (clip.id === message.clipId
+          ? { ...clip, transcription: text, originalTranscription: clip.originalTranscription ?? clip.transcription }
+          : clip)),
+      )
+    }
+    if (!canSync) return
+
+    // 同一消息连续修正时取消上一次请求，只采用最后一次修正的结果
+    const requests = correctionRequestsRef.current
+    requests.get(messageId)?.abort()
+    const controller = new AbortController()
+    requests.set(messageId, controller)
+
+    try {
+      const result = await correctTranscript(cid, serverMessageId, text, { signal: controller.signal })
+      if (requests.get(messageId) !== controller) return
+      console.log(`[修正] ✓ 消息 ${serverMessageId} 已修正，重新匹配到 ${result.total_matches} 个症状`)
+      updateMessage(messageId, { correctionStatus: 'saved' })
+      if (!(message.speaker === 'doctor' && ignoreDoctorSymptoms)) {
+        replaceSymptomMatches(messageId, result.results, { serverMessageId, mentionedAt: message.timestamp.getTime() })
+      }
+    } catch (error) {
+      if (requests.get(messageId) !== controller) return
+      console.error('[修正] ✗ 同步失败:', error)
+      updateMessage(messageId, { correctionStatus: 'failed', correctionError: (error as Error).message })
+    } finally {
+      if (requests.get(messageId) === controller) requests.delete(messageId)
+    }
+  }
+
+  // 文字问诊：占用一个片段序号，使文字与语音按输入顺序排列
+  const handleSubmitText = async (text: string, speaker: Speaker) => {
+    const cid = conversationIdRef.current
+    if (!cid) throw new Error('会话尚未创建')
+    const seq = nextClipSeqRef.current++
+    console.log(`[文字] → 提交文字 #${seq} (${text.length} 字)，会话ID: ${cid}`)
+
+    const result = await submitTextConsultation(text, cid, { speaker })
+    console.log(`[文字] ✓ 匹配到 ${result.total_matches} 个症状`)
+    applyTranscription({ seq, speaker, typed: true }, result.recognized_text || text, result.results, result.message_id)
+  }
+
+  // 在语音片段中修正转录：有对应消息时按消息修正，否则只修改片段
+  const handleCorrectClip = (clip: VoiceClip, text: string) => {
+    const message = messages.find((m) => m.clipId === clip.id)
+    if (message) {
+      void handleCorrectTranscript(message.id, text)
+      return
+    }
+    updateClip(clip.id, {
+      transcription: text,
+      originalTranscription: clip.originalTranscription ?? clip.transcription,
+    })
+  }
+
+  // 片段加入上传队列（批量识别）
+  const enqueueClip = async (audioBlob: Blob, clip: VoiceClip | undefined, conversationId: number) => {
+    const seq = clip?.seq ?? nextClipSeqRef.current++
+    const blobSize = (audioBlob.size / 1024)
+    console.log(`[API] → 片段 #${seq} 加入上传队列 (${blobSize.toFixed(2)}KB), 会话ID: ${conversationId}`)
+
+    try {
+      await enqueue(audioBlob, conversationId, {
+        clipId: clip?.id,
+        seq,
+        audioFormat: clip?.audioFormat ?? DEFAULT_AUDIO_FORMAT,
+        speaker: clip?.speaker,
+        continuesPrevious: clip?.continuesPrevious,
+      })
+    } catch (error) {
+      console.error('[API] ✗ 片段入队失败:', error)
+      if (clip) {
+        updateClip(clip.id, { uploadStatus: 'failed', uploadError: (error as Error).message })
+      }
+    }
+  }
+
+  // 流式识别：说话过程中实时发送音频，显示中间结果
+  const {
+    connect: connectStreaming,
+    disconnect: disconnectStreaming,
+    pushFrame,
+    startSegment,
+    endSegment,
+    cancelSegment,
+    status: streamingStatus,
+  } = useStreamingTranscription({
+    onPartial: (segmentId, text) => {
+      setPartialTranscript({ segmentId, text })
+    },
+    onFinal: (result) => {
+      setPartialTranscript((prev) => (prev?.segmentId === result.segment_id ? null : prev))
+      const clip = clipByStreamSegmentRef.current.get(result.segment_id)
+      if (!clip) return
+      clipByStreamSegmentRef.current.delete(result.segment_id)
+      applyTranscription(
+        { seq: clip.seq, clipId: clip.id, speaker: clip.speaker, continuesPrevious: clip.continuesPrevious },
+        result.text,
+        result.results,
+        result.message_id,
+      )
+    },
+    onFallback: (segmentId) => {
+      setPartialTranscript((prev) => (prev?.segmentId === segmentId ? null : prev))
+      const clip = clipByStreamSegmentRef.current.get(segmentId)
+      clipByStreamSegmentRef.current.delete(segmentId)
+      const currentConversationId = conversationIdRef.current
+      if (clip && currentConversationId) {
+        void enqueueClip(clip.blob, clip, currentConversationId)
+      }
+    },
+  })
+
+  // 按设置建立流式连接，失败时使用批量上传
+  const connectStreamingIfEnabled = async (cid: number) => {
+    isStreamingActiveRef.current = false
+    // 演示模式下没有流式识别服务
+    if (!useStreaming || mockSettings.enabled) return
+    isStreamingActiveRef.current = await connectStreaming(cid)
+    if (!isStreamingActiveRef.current) {
+      console.warn('[流式] 无法建立流式连接，使用批量上传')
+    }
+  }
+
+  // 上传队列：片段先持久化到本地，再按顺序上传，失败自动重试
+  const { enqueue, retryFailed, discardFailed, queuedCount, failedCount, blockedCount, isOnline } = useUploadQueue({
+    onUploaded: (item, result) => {
+      const elapsed = Date.now() - item.createdAt
+
+      console.log(`[API] ✓ 服务器响应 (入队后 ${elapsed}ms):`, {
+        text: result.recognized_text,
+        matches: result.total_matches,
+      })
+
+      // 之前会话遗留的片段只补传到服务器，不更新当前界面
+      if (item.conversationId !== conversationIdRef.current) {
+        console.log(`[API] 片段属于会话 ${item.conversationId}，非当前会话，跳过界面更新`)
+        return
+      }
+
+      applyTranscription(
+        { seq: item.seq, clipId: item.clipId, speaker: item.speaker, continuesPrevious: item.continuesPrevious },
+        result.recognized_text,
+        result.results,
+        result.message_id,
+      )
+    },
+    onFailed: (item, error) => {
+      console.error(`[API] ✗ 片段 ${item.id} 上传失败:`, error)
+    },
+    onStatusChange: (item) => {
+      if (!item.clipId || item.conversationId !== conversationIdRef.current) return
+      updateClip(item.clipId, {
+        uploadStatus: item.status,
+        uploadError: item.lastError,
+        uploadRejected: item.rejected,
+      })
+    },
+  })
+
+  // 放弃失败的片段，让同一会话中排在其后的片段继续上传
+  const handleDiscardFailed = async () => {
+    if (!window.confirm(`放弃 ${failedCount} 个上传失败的片段？这些片段将不会被转录。`)) return
+    const discarded = await discardFailed()
+    for (const item of discarded) {
+      if (item.clipId && item.conversationId === conversationIdRef.current) {
+        updateClip(item.clipId, { uploadError: '已放弃上传' })
+      }
+    }
+  }
 
   // 使用录音 hook
-  const { startRecording, stopRecording, pauseRecording, resumeRecording, analyser: recorderAnalyser } = useAudioRecorder({
+  const {
+    startRecording,
+    stopRecording,
+    pauseRecording,
+    resumeRecording,
+    setSpeaker,
+    switchInput,
+    isRecording,
+    isPaused,
+    analyser,
+  } = useAudioRecorder({
     onDataAvailable: async (audioBlob) => {
       const currentConversationId = conversationIdRef.current
       if (!currentConversationId) {
@@ -198,76 +631,39 @@ function App() {
         return
       }
 
-      const blobSize = (audioBlob.size / 1024)
-      const startTime = Date.now()
-      console.log(`[API] → 立即发送音频到服务器... (${blobSize.toFixed(2)}KB), 会话ID: ${currentConversationId}`)
+      const clip = clipByBlobRef.current.get(audioBlob)
 
-      try {
-        const result = await uploadAudio(audioBlob, currentConversationId)
-        const elapsed = Date.now() - startTime
-
-        console.log(`[API] ✓ 服务器响应 (${elapsed}ms):`, {
-          text: result.recognized_text,
-          matches: result.total_matches,
-        })
-
-        console.log('[API] ✓ 服务器响应:', {
-          text: result.recognized_text,
-          matches: result.total_matches,
-        })
-
-        // 添加转录消息
-        if (result.recognized_text) {
-          setMessages((prev) => [
-            ...prev,
-            {
-              id: `${Date.now()}-${Math.random()}`,
-              content: result.recognized_text,
-              timestamp: new Date(),
-            },
-          ])
+      // 流式识别：片段音频已实时发送，只需请求最终结果
+      if (isStreamingActiveRef.current) {
+        const segmentId = endSegment(clip?.speaker)
+        // 强制切分：说话仍在继续，立即开始下一个流式片段
+        if (clip?.continuesNext) {
+          startSegment()
         }
-
-        // 更新对应的语音片段的转录文本
-        if (pendingClipIdRef.current) {
-          setVoiceClips((prev) =>
-            prev.map((clip) =>
-              clip.id === pendingClipIdRef.current
-                ? { ...clip, transcription: result.recognized_text }
-                : clip
-            )
-          )
-          pendingClipIdRef.current = null
-        }
-
-        // 更新症状匹配信息
-        if (result.results && result.results.length > 0) {
-          const symptomNames = result.results.map(r => r.summary).join(', ')
-          console.log('[症状] 匹配到的症状:', symptomNames)
-          setSymptoms(
-            result.results.map((r) => ({
-              summary: r.summary,
-              confidence: r.confidence_score,
-              description: r.full_description,
-            })),
-          )
+        if (segmentId !== null && clip) {
+          clipByStreamSegmentRef.current.set(segmentId, clip)
+          updateClip(clip.id, { uploadStatus: 'uploading' })
+          return
         }
-      } catch (error) {
-        console.error('[API] ✗ 请求失败:', error)
+        console.warn('[流式] 片段未能流式发送，回退到批量上传')
       }
+
+      await enqueueClip(audioBlob, clip, currentConversationId)
     },
     onError: (error) => {
       console.error('[录音] ✗ 错误:', error)
-      setIsRecording(false)
     },
     onSpeechStart: () => {
       setIsSpeaking(true)
+      if (isStreamingActiveRef.current) {
+        startSegment()
+      }
     },
     onSpeechEnd: (duration) => {
       setIsSpeaking(false)
       console.log(`[UI] 说话结束，时长: ${duration}ms`)
     },
-    onSilenceSubmit: (blob, blobSize, duration) => {
+    onSilenceSubmit: (blob, blobSize, duration, info) => {
       // 前端检测到语音片段后立即添加到列表
       const clipId = `${Date.now()}-${Math.random()}`
       console.log('[UI] 收到语音片段:', {
@@ -278,27 +674,72 @@ function App() {
       })
       const clip: VoiceClip = {
         id: clipId,
+        seq: nextClipSeqRef.current++,
         blob: blob,
         blobSize: blobSize,
         duration: duration,
         submitTime: new Date(),
+        uploadStatus: 'queued',
+        audioFormat: info.audioFormat,
+        speaker: info.speaker,
+        continuesPrevious: info.continuesPrevious,
+        continuesNext: info.continuesNext,
       }
       setVoiceClips((prev) => [...prev, clip])
-      console.log(`[UI] ✓ 检测到语音片段: ${clip.blobSize.toFixed(2)}KB, ${clip.duration}ms`)
+      console.log(`[UI] ✓ 检测到语音片段 #${clip.seq}: ${clip.blobSize.toFixed(2)}KB, ${clip.duration}ms`)
 
-      // 保存 clipId 用于 API 返回时更新转录文本
-      pendingClipIdRef.current = clipId
+      // 记录 blob 对应的片段，入队时据此关联上传状态
+      clipByBlobRef.current.set(blob, clip)
+    },
+    onSegmentDiscard: () => {
+      if (isStreamingActiveRef.current) {
+        cancelSegment()
+      }
+    },
+    onPcmFrame: (frame) => {
+      if (isStreamingActiveRef.current) {
+        pushFrame(frame)
+      }
+    },
+    onCalibrated: (threshold, floor) => {
+      setIsCalibrating(false)
+      setVadThreshold(threshold)
+      setNoiseFloor(floor)
+    },
+    onThresholdChange: (threshold, floor) => {
+      setVadThreshold(threshold)
+      setNoiseFloor(floor)
+    },
+    onInputChange: (_deviceId, label) => {
+      setActiveInputLabel(label || null)
+      // 获得麦克风权限后才能读到设备名称
+      void refreshInputDevices()
     },
     // 静音检测配置
-    silenceThreshold: 0.10, // 音量阈值 0-1，降低到 10% 以便检测正常说话
-    silenceDuration: 2000, // 静音 2 秒后提交（给说话留更多缓冲）
-    minSpeechDuration: 800, // 最小语音时长 0.8 秒，过滤过短的片段
+    ...SEGMENTATION,
+    calibrationDuration: 3000,
   })
 
-  // 同步 analyser
-  useEffect(() => {
-    setAnalyser(recorderAnalyser)
-  }, [recorderAnalyser])
+  // 开始录音（按设置先校准环境噪声）
+  const beginRecording = async (): Promise<boolean> => {
+    setVadThreshold(DEFAULT_SILENCE_THRESHOLD)
+    setNoiseFloor(null)
+    setIsCalibrating(calibrateNoise)
+    setIsDoctorSpeaking(false)
+    const started = await startRecording({ calibrate: calibrateNoise, audioFormat, speakerMode, deviceId: selectedDeviceId })
+    if (!started) {
+      setIsCalibrating(false)
+    }
+    return started
+  }
+
+  // 选择麦克风：录音中立即切换，当前片段继续录制
+  const handleSelectInput = (deviceId: string | null) => {
+    selectDevice(deviceId)
+    if (isRecording) {
+      void switchInput(deviceId)
+    }
+  }
 
   // 开始问诊
   const handleStartConsultation = async () => {
@@ -309,46 +750,363 @@ function App() {
 
       // 同时更新 ref 和 state（ref 立即生效，state 用于 UI 渲染）
       conversationIdRef.current = cid
-      setConversationId(cid)
+      setConversation(session)
+      nextClipSeqRef.current = 0
 
       console.log('[会话] 已创建会话，ID:', cid)
 
+      await connectStreamingIfEnabled(cid)
+
       // 开始录音
-      const started = await startRecording()
+      const started = await beginRecording()
       if (started) {
-        setIsRecording(true)
         setPageState('consulting')
+      } else if (isStreamingActiveRef.current) {
+        disconnectStreaming()
+        isStreamingActiveRef.current = false
       }
     } catch (error) {
       console.error('开始问诊失败:', error)
-      alert('启动问诊失败，请检查麦克风权限和网络连接')
+      if (isApiError(error)) {
+        alert(error.kind === 'http'
+          ? `服务器拒绝创建会话：${error.detail || error.message}`
+          : '无法连接服务器，请检查网络连接')
+      } else {
+        alert('启动问诊失败，请检查麦克风权限和网络连接')
+      }
+    }
+  }
+
+  // 继续之前的问诊：恢复转录和症状，新的语音片段继续写入同一会话
+  const handleResumeConsultation = async (detail: ConversationDetailResponse) => {
+    const cid = detail.conversation_id
+    const history = detail.messages ?? []
+
+    conversationIdRef.current = cid
+    setConversation({
+      conversation_id: cid,
+      title: detail.title,
+      department: detail.department,
+      created_at: detail.created_at,
+    })
+    // 新片段的序号接在已有消息和上次中断时仍在上传队列中的片段之后，避免序号重复
+    let pendingSeq = -1
+    try {
+      for (const item of await getAllQueueItems()) {
+        if (item.conversationId === cid) pendingSeq = Math.max(pendingSeq, item.seq)
+      }
+    } catch (error) {
+      console.warn('[会话] 无法读取上传队列:', error)
+    }
+    nextClipSeqRef.current = Math.max(history.length, pendingSeq + 1)
+
+    setMessages(
+      history.map((msg, index) => ({
+        id: `server-${msg.message_id}`,
+        seq: index,
+        content: msg.content,
+        timestamp: new Date(msg.created_at),
+        speaker: msg.speaker,
+        serverMessageId: msg.message_id,
+        originalContent: msg.original_content ?? undefined,
+        correctionStatus: msg.original_content ? 'saved' : undefined,
+        typed: msg.input_type === 'text',
+      })),
+    )
+
+    // 按消息顺序重建症状看板，并恢复医生之前的反馈（同一症状取最近一次）
+    resetSymptoms()
+    for (const msg of history) {
+      if (!msg.results || msg.results.length === 0) continue
+      if (ignoreDoctorSymptoms && msg.speaker === 'doctor') continue
+      addSymptomMatches(msg.results, {
+        messageId: `server-${msg.message_id}`,
+        serverMessageId: msg.message_id,
+        mentionedAt: new Date(msg.created_at).getTime(),
+      })
+    }
+    const feedbackRecords = history
+      .flatMap((msg) => msg.feedback ?? [])
+      .sort((a, b) => new Date(a.updated_at).getTime() - new Date(b.updated_at).getTime())
+    for (const record of feedbackRecords) {
+      setSymptomFeedback(record.cui, { verdict: record.verdict, note: record.note ?? '', status: 'saved' })
+    }
+
+    console.log(`[会话] 继续会话，ID: ${cid}，已恢复 ${history.length} 条消息`)
+
+    await connectStreamingIfEnabled(cid)
+
+    const started = await beginRecording()
+    if (started) {
+      setPageState('consulting')
+    } else {
+      if (isStreamingActiveRef.current) {
+        disconnectStreaming()
+        isStreamingActiveRef.current = false
+      }
+      alert('继续问诊失败，请检查麦克风权限')
+    }
+  }
+
+  // 按住按钮期间的语音标记为医生发言
+  const handleDoctorSpeaking = (speaking: boolean) => {
+    if (speaking === isDoctorSpeaking) return
+    setIsDoctorSpeaking(speaking)
+    setSpeaker(speaking ? 'doctor' : 'patient')
+  }
+
+  // 提交医生对症状的判断：针对最近一条匹配到该症状的服务器消息
+  const handleSymptomFeedback = async (cui: string, verdict: SymptomVerdict, note: string) => {
+    const entry = symptomEntries.find((item) => item.cui === cui)
+    const cid = conversationIdRef.current
+    if (!entry || entry.serverMessageIds.length === 0 || !cid) return
+    const messageId = entry.serverMessageIds[entry.serverMessageIds.length - 1]
+
+    setSymptomFeedback(cui, { verdict, note, status: 'saving' })
+    try {
+      await submitSymptomFeedback(cid, messageId, { cui, verdict, note })
+      console.log(`[反馈] ✓ ${entry.summary}: ${verdict}（消息 ${messageId}）`)
+      setSymptomFeedback(cui, { verdict, note, status: 'saved' })
+    } catch (error) {
+      console.error('[反馈] ✗ 提交失败:', error)
+      setSymptomFeedback(cui, { verdict, note, status: 'failed', error: (error as Error).message })
     }
   }
 
+  // 从症状看板定位到来源消息（连续消息合并显示时定位到合并后的那条）
+  const handleSelectMessage = (messageId: string) => {
+    const target = mergeContinuedMessages(messages).find((msg) => msg.sourceIds.includes(messageId))
+    if (!target) return
+    document.getElementById(`message-${target.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedMessageId(target.id)
+    if (highlightTimerRef.current) clearTimeout(highlightTimerRef.current)
+    highlightTimerRef.current = setTimeout(() => {
+      setHighlightedMessageId(null)
+      highlightTimerRef.current = null
+    }, MESSAGE_HIGHLIGHT_DURATION)
+  }
+
+  // 由当前会话生成问诊报告
+  const buildReport = (): ConsultationReport | null =>
+    conversation && buildConsultationReport(conversation, mergeContinuedMessages(messages), symptomEntries)
+
   // 结束问诊
   const handleEndConsultation = async () => {
-    stopRecording()
-    setIsRecording(false)
-    setIsPaused(false)
+    // 等待最后一段编码完成并入队
+    await stopRecording()
+    setIsCalibrating(false)
+    setIsDoctorSpeaking(false)
     stopAllPlayback()
 
+    // 断开流式连接，尚未收到结果的片段转入上传队列
+    if (isStreamingActiveRef.current) {
+      disconnectStreaming()
+      isStreamingActiveRef.current = false
+    }
+    setPartialTranscript(null)
+    clipByStreamSegmentRef.current.clear()
+
+    // 保留本次问诊的报告，回到主页后仍可导出
+    setLastReport(buildReport())
+    clearConsultation()
+  }
+
+  // 清空当前会话并回到主页
+  const clearConsultation = () => {
     setPageState('home')
     setMessages([])
-    setSymptoms([])
+    resetSymptoms()
+    setHighlightedMessageId(null)
     setVoiceClips([])
-    setConversationId(null)
+    setConversation(null)
+    setIsReviewing(false)
+    setAudioFileImport(null)
+    correctionRequestsRef.current.forEach((controller) => {
+      controller.abort()
+    })
+    correctionRequestsRef.current.clear()
     conversationIdRef.current = null
-    pendingClipIdRef.current = null
+    nextClipSeqRef.current = 0
   }
 
-  // 清理：组件卸载时停止录音
-  useEffect(() => {
-    return () => {
-      if (isRecording) {
-        stopRecording()
-      }
+  // 导出会话存档：全部片段的 WAV 与 manifest
+  const handleExportArchive = async () => {
+    if (!conversation) return
+    setIsArchiving(true)
+    try {
+      const archive = await exportSessionArchive({
+        conversation,
+        clips: voiceClips.map((clip) => ({
+          id: clip.id,
+          seq: clip.seq,
+          blob: clip.blob,
+          audioFormat: clip.audioFormat,
+          duration: clip.duration,
+          submitTime: clip.submitTime,
+          speaker: clip.speaker,
+          transcribed: clip.uploadStatus === 'transcribed',
+          transcription: clip.transcription,
+          originalTranscription: clip.originalTranscription,
+          continuesPrevious: clip.continuesPrevious,
+          continuesNext: clip.continuesNext,
+        })),
+        messages,
+        symptoms: symptomEntries,
+      })
+      downloadFile(archive, getArchiveFilename(conversation), 'application/zip')
+      console.log(`[存档] ✓ 已导出 ${voiceClips.length} 个片段 (${(archive.size / 1024).toFixed(1)}KB)`)
+    } catch (error) {
+      console.error('[存档] ✗ 导出失败:', error)
+      alert(`导出存档失败：${(error as Error).message}`)
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  // 导入会话存档，以只读方式回看和回放
+  const handleImportArchive = async (file: File) => {
+    setIsArchiving(true)
+    try {
+      const archive = await importSessionArchive(file)
+      setConversation(archive.conversation)
+      setMessages(archive.messages)
+      restoreSymptoms(archive.symptoms)
+      setVoiceClips(
+        archive.clips.map((clip) => ({
+          id: clip.id,
+          seq: clip.seq,
+          blob: clip.blob,
+          blobSize: clip.blob.size / 1024,
+          duration: clip.duration,
+          submitTime: clip.submitTime,
+          uploadStatus: clip.transcribed ? 'transcribed' : 'failed',
+          uploadError: clip.transcribed ? undefined : '存档时尚未转录',
+          audioFormat: 'wav',
+          speaker: clip.speaker,
+          transcription: clip.transcription,
+          originalTranscription: clip.originalTranscription,
+          continuesPrevious: clip.continuesPrevious,
+          continuesNext: clip.continuesNext,
+        })),
+      )
+      setHighlightedMessageId(null)
+      setIsReviewing(true)
+      setPageState('consulting')
+      console.log(`[存档] ✓ 已导入会话 ${archive.conversation.conversation_id}，${archive.clips.length} 个片段`)
+    } catch (error) {
+      console.error('[存档] ✗ 导入失败:', error)
+      alert(error instanceof SessionArchiveError ? error.message : `导入存档失败：${(error as Error).message}`)
+    } finally {
+      setIsArchiving(false)
+    }
+  }
+
+  // 分析录好的音频文件：按录音相同的规则切分，逐段上传到新会话，结果与实时问诊一样显示
+  const handleImportAudioFile = async (file: File) => {
+    setAudioFileImport({ fileName: file.name, phase: 'decoding', progress: 0, segmentCount: 0 })
+    setPageState('consulting')
+
+    let samples: Float32Array
+    try {
+      samples = await decodeAudioFile(file)
+    } catch (error) {
+      console.error('[音频文件] ✗ 解码失败:', error)
+      alert(`${(error as Error).message}，请选择 WAV、MP3、M4A 或 WebM 文件`)
+      clearConsultation()
+      return
     }
-  }, [])
+
+    let cid: number
+    try {
+      const session = await createConsultationSession(`音频文件：${file.name}`, 'General')
+      cid = session.conversation_id
+      conversationIdRef.current = cid
+      setConversation(session)
+      nextClipSeqRef.current = 0
+      console.log('[会话] 已创建会话，ID:', cid)
+    } catch (error) {
+      console.error('[音频文件] ✗ 创建会话失败:', error)
+      alert(isApiError(error) && error.kind === 'http'
+        ? `服务器拒绝创建会话：${error.detail || error.message}`
+        : '无法连接服务器，请检查网络连接')
+      clearConsultation()
+      return
+    }
+
+    // 片段按切出顺序编码入队，编码失败时与录音一样改用 WAV
+    const encoder = getEncoder(audioFormat)
+    let encodeQueue = Promise.resolve()
+    setAudioFileImport((prev) => prev && { ...prev, phase: 'segmenting' })
+    const segments = await segmentSamples(samples, {
+      ...SEGMENTATION,
+      onProgress: (processed, total) => {
+        setAudioFileImport((prev) => prev && { ...prev, progress: processed / total })
+      },
+      onSegment: (segment) => {
+        setAudioFileImport((prev) => prev && { ...prev, segmentCount: prev.segmentCount + 1 })
+        encodeQueue = encodeQueue.then(async () => {
+          let blob: Blob
+          let clipFormat = encoder.format
+          try {
+            blob = await encoder.encode(segment.samples, SEGMENT_SAMPLE_RATE)
+          } catch (error) {
+            console.warn(`[音频文件] ${encoder.label} 编码失败，改用 WAV:`, error)
+            blob = await getEncoder('wav').encode(segment.samples, SEGMENT_SAMPLE_RATE)
+            clipFormat = 'wav'
+          }
+          if (conversationIdRef.current !== cid) return // 分析过程中已离开该会话
+
+          const clip: VoiceClip = {
+            id: `${Date.now()}-${Math.random()}`,
+            seq: nextClipSeqRef.current++,
+            blob,
+            blobSize: blob.size / 1024,
+            duration: Math.round(segment.duration),
+            submitTime: new Date(),
+            uploadStatus: 'queued',
+            audioFormat: clipFormat,
+            speaker: 'patient',
+            continuesPrevious: segment.continuesPrevious,
+            continuesNext: segment.continuesNext,
+          }
+          setVoiceClips((prev) => [...prev, clip])
+          await enqueueClip(blob, clip, cid)
+        })
+      },
+    })
+    await encodeQueue
+
+    if (conversationIdRef.current !== cid) return
+    console.log(`[音频文件] ✓ ${file.name} 切分出 ${segments.length} 个语音片段`)
+    setAudioFileImport((prev) => prev && { ...prev, phase: 'uploading', progress: 1 })
+  }
+
+  // 回放调试（开发环境）：用当前分段参数快速回放 WAV，下载片段边界报告，用于调参和制作回归样本
+  const handleReplayFile = async (file: File) => {
+    try {
+      const report = await new AudioRecorder(SEGMENTATION).replay(file, { calibrate: calibrateNoise, speakerMode })
+      downloadFile(JSON.stringify(report, null, 2), `${file.name.replace(/\.wav$/i, '')}.segments.json`, 'application/json')
+    } catch (error) {
+      console.error('[回放] ✗ 回放失败:', error)
+      alert(`回放失败：${(error as Error).message}`)
+    }
+  }
+
+  // 关闭存档回放
+  const handleCloseReview = () => {
+    stopAllPlayback()
+    clearConsultation()
+  }
+
+  // 问诊记录
+  if (pageState === 'history') {
+    return (
+      <ConsultationHistory
+        onBack={() => setPageState('home')}
+        onResume={(detail) => void handleResumeConsultation(detail)}
+      />
+    )
+  }
 
   // 主页
   if (pageState === 'home') {
@@ -389,8 +1147,174 @@ function App() {
               >
                 开始问诊
               </button>
+              <label className="flex items-center justify-center gap-2 mt-3 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={useStreaming && !mockSettings.enabled}
+                  disabled={mockSettings.enabled}
+                  onChange={(e) => setUseStreaming(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                实时转写（说话时即显示文字）
+              </label>
+              <label className="flex items-center justify-center gap-2 mt-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={calibrateNoise}
+                  onChange={(e) => setCalibrateNoise(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                开始前校准环境噪声（约 3 秒，请保持安静）
+              </label>
+              {availableEncoders.length > 1 && (
+                <label className="flex items-center justify-center gap-2 mt-2 text-sm text-gray-600">
+                  上传格式
+                  <select
+                    value={audioFormat}
+                    onChange={(e) => setAudioFormat(e.target.value as AudioFormat)}
+                    className="border border-gray-200 rounded-lg px-2 py-1 text-sm bg-white"
+                  >
+                    {availableEncoders.map((encoder) => (
+                      <option key={encoder.format} value={encoder.format}>{encoder.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center justify-center gap-2 mt-2 text-sm text-gray-600">
+                麦克风
+                <MicrophoneSelect
+                  devices={inputDevices}
+                  value={selectedDeviceId}
+                  onChange={selectDevice}
+                  className="max-w-[14rem]"
+                />
+              </label>
+              <label className="flex items-center justify-center gap-2 mt-2 text-sm text-gray-600">
+                区分说话人
+                <select
+                  value={speakerMode}
+                  onChange={(e) => setSpeakerMode(e.target.value as SpeakerMode)}
+                  className="border border-gray-200 rounded-lg px-2 py-1 text-sm bg-white"
+                >
+                  <option value="push-to-talk">按住按钮标记医生发言</option>
+                  <option value="dual-channel">双声道麦克风（右声道为医生）</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-center gap-2 mt-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={ignoreDoctorSymptoms}
+                  onChange={(e) => setIgnoreDoctorSymptoms(e.target.checked)}
+                  className="w-4 h-4 accent-blue-500"
+                />
+                症状匹配忽略医生的提问
+              </label>
+              <button
+                onClick={() => setPageState('history')}
+                className="w-full mt-3 bg-blue-50 text-blue-600 font-medium py-3 rounded-2xl active:bg-blue-100 transition-all"
+              >
+                问诊记录
+              </button>
+              <button
+                onClick={() => archiveInputRef.current?.click()}
+                disabled={isArchiving}
+                className="w-full mt-2 text-sm text-gray-500 py-2 rounded-2xl active:bg-gray-100 transition-all disabled:opacity-50"
+              >
+                {isArchiving ? '正在读取存档…' : '📦 导入会话存档回放'}
+              </button>
+              <button
+                onClick={() => audioFileInputRef.current?.click()}
+                className="w-full mt-2 text-sm text-gray-500 py-2 rounded-2xl active:bg-gray-100 transition-all"
+              >
+                🎵 分析录音文件（WAV / MP3 / M4A / WebM）
+              </button>
+              <input
+                ref={audioFileInputRef}
+                type="file"
+                accept={AUDIO_FILE_ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void handleImportAudioFile(file)
+                }}
+              />
+              <input
+                ref={archiveInputRef}
+                type="file"
+                accept=".zip,application/zip"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) void handleImportArchive(file)
+                }}
+              />
+
+              {import.meta.env.DEV && (
+                <>
+                  <button
+                    onClick={() => replayInputRef.current?.click()}
+                    className="w-full mt-2 text-xs text-gray-400 py-2 rounded-2xl active:bg-gray-100 transition-all"
+                    title="按当前分段参数回放 WAV 文件，下载片段边界报告（JSON）"
+                  >
+                    🧪 分段回放调试（WAV）
+                  </button>
+                  <input
+                    ref={replayInputRef}
+                    type="file"
+                    accept=".wav,audio/wav"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0]
+                      e.target.value = ''
+                      if (file) void handleReplayFile(file)
+                    }}
+                  />
+                </>
+              )}
+
+              <DemoModeSettings
+                settings={mockSettings}
+                onChange={(changes) => {
+                  setMockSettings(updateMockApiSettings(changes))
+                }}
+                onReset={resetMockApiData}
+              />
+
+              {/* 上次未上传完成的片段 */}
+              {(queuedCount > 0 || failedCount > 0) && (
+                <div className="mt-4 flex items-center justify-center gap-2 text-xs">
+                  {queuedCount > 0 && (
+                    <span className="text-blue-600">⏳ {queuedCount} 个片段待上传</span>
+                  )}
+                  {failedCount > 0 && (
+                    <>
+                      <button onClick={() => void retryFailed()} className="text-red-600 underline">
+                        ⚠ {failedCount} 个片段上传失败，点击重试
+                      </button>
+                      <button onClick={() => void handleDiscardFailed()} className="text-gray-500 underline">
+                        放弃
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
             </div>
 
+            {/* 上次问诊报告 */}
+            {lastReport && (
+              <div className="bg-white rounded-3xl shadow-sm p-4 mb-6">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="text-sm font-semibold text-gray-900">📄 上次问诊报告</span>
+                  <span className="text-xs text-gray-400">
+                    {lastReport.transcript.length} 条对话 · {lastReport.symptoms.length} 项症状
+                  </span>
+                </div>
+                <ReportExport getReport={() => lastReport} />
+              </div>
+            )}
+
             {/* 功能说明 */}
             <div className="grid grid-cols-3 gap-3">
               <div className="bg-white/60 backdrop-blur rounded-2xl p-4 text-center">
@@ -417,6 +1341,9 @@ function App() {
     )
   }
 
+  // 音频文件分析：已完成识别（或失败）的片段数
+  const settledClipCount = voiceClips.filter((clip) => clip.uploadStatus === 'transcribed' || clip.uploadStatus === 'failed').length
+
   // 问诊中页面
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
@@ -424,6 +1351,9 @@ function App() {
       <header className="bg-white shadow-sm sticky top-0 z-50">
         <div className="px-4 py-3 flex items-center justify-between">
           <div className="flex items-center gap-2">
+            {isReviewing && (
+              <span className="text-sm text-gray-600">📦 存档回放 · {conversation?.title}</span>
+            )}
             {isRecording && !isPaused && (
               <>
                 <div className={`w-2 h-2 rounded-full ${isSpeaking ? 'bg-green-500 scale-150' : 'bg-red-500'} transition-all duration-200`}></div>
@@ -438,9 +1368,46 @@ function App() {
                 <span className="text-sm text-gray-600">已暂停</span>
               </>
             )}
-            {!isRecording && (
+            {audioFileImport && (
+              <span className="text-sm text-gray-600 truncate max-w-[12rem]">🎵 {audioFileImport.fileName}</span>
+            )}
+            {!isRecording && !isReviewing && !audioFileImport && (
               <span className="text-sm text-gray-400">已停止</span>
             )}
+            {streamingStatus === 'open' && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-green-50 text-green-600">实时</span>
+            )}
+            {mockSettings.enabled && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-amber-50 text-amber-600">演示模式</span>
+            )}
+            {!isOnline && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-500">离线</span>
+            )}
+            {queuedCount > 0 && (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-600">
+                ⏳ {queuedCount} 待上传
+              </span>
+            )}
+            {failedCount > 0 && (
+              <>
+                <button
+                  onClick={() => void retryFailed()}
+                  className="text-xs px-2 py-0.5 rounded-full bg-red-50 text-red-600 active:bg-red-100"
+                  title={blockedCount > 0
+                    ? `为保证说话顺序，后续 ${blockedCount} 个片段暂停上传，重试或放弃失败的片段后继续`
+                    : '重新上传失败的片段'}
+                >
+                  ⚠ {failedCount} 失败{blockedCount > 0 && ` · ${blockedCount} 暂停`} · 重试
+                </button>
+                <button
+                  onClick={() => void handleDiscardFailed()}
+                  className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-500 active:bg-gray-200"
+                  title="放弃失败的片段，后续片段继续上传"
+                >
+                  放弃
+                </button>
+              </>
+            )}
           </div>
           <div className="flex items-center gap-2">
             {isRecording && (
@@ -451,12 +1418,21 @@ function App() {
                 {isPaused ? '▶ 继续' : '⏸ 暂停'}
               </button>
             )}
-            <button
-              onClick={handleEndConsultation}
-              className="px-4 py-2 bg-red-50 text-red-600 rounded-lg text-sm font-medium active:bg-red-100"
-            >
-              结束问诊
-            </button>
+            {isReviewing ? (
+              <button
+                onClick={handleCloseReview}
+                className="px-4 py-2 bg-gray-100 text-gray-600 rounded-lg text-sm font-medium active:bg-gray-200"
+              >
+                关闭回放
+              </button>
+            ) : (
+              <button
+                onClick={handleEndConsultation}
+                className="px-4 py-2 bg-red-50 text-red-600 rounded-lg text-sm font-medium active:bg-red-100"
+              >
+                结束问诊
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -473,36 +1449,89 @@ function App() {
                   音频录入
                 </h3>
                 <span className="text-xs text-gray-400">
-                  {isSpeaking ? '正在录音...' : '等待语音...'}
+                  {isCalibrating ? '正在校准...' : isSpeaking ? '正在录音...' : '等待语音...'}
                 </span>
               </div>
-              <AudioWaveform analyser={analyser} isRecording={isRecording} isPaused={isPaused} silenceThreshold={0.10} />
+              <MicrophoneSelect
+                devices={inputDevices}
+                value={selectedDeviceId}
+                onChange={handleSelectInput}
+                activeLabel={activeInputLabel ?? undefined}
+                className="mb-2"
+              />
+              <AudioWaveform
+                analyser={analyser}
+                isRecording={isRecording}
+                isPaused={isPaused}
+                silenceThreshold={vadThreshold}
+                noiseFloor={noiseFloor ?? undefined}
+                isCalibrating={isCalibrating}
+              />
+              {speakerMode === 'push-to-talk' && (
+                <button
+                  onPointerDown={() => handleDoctorSpeaking(true)}
+                  onPointerUp={() => handleDoctorSpeaking(false)}
+                  onPointerLeave={() => handleDoctorSpeaking(false)}
+                  onPointerCancel={() => handleDoctorSpeaking(false)}
+                  className={`w-full mt-3 py-2 rounded-xl text-sm font-medium select-none touch-none transition-colors ${
+                    isDoctorSpeaking
+                      ? 'bg-emerald-500 text-white'
+                      : 'bg-emerald-50 text-emerald-700 active:bg-emerald-100'
+                  }`}
+                >
+                  {isDoctorSpeaking ? '🩺 医生发言中…' : '按住：医生发言'}
+                </button>
+              )}
             </section>
           )}
 
-          {/* 症状匹配结果 */}
-          {symptoms.length > 0 && (
+          {/* 音频文件分析进度 */}
+          {audioFileImport && (
             <section className="bg-white rounded-2xl shadow-sm p-4">
-              <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
-                <span className="text-lg">🔍</span>
-                识别的症状
-              </h3>
-              <div className="space-y-2">
-                {symptoms.map((symptom, index) => (
-                  <div key={index} className="bg-blue-50 rounded-xl p-3">
-                    <div className="flex items-center justify-between mb-1">
-                      <span className="font-medium text-gray-900">{symptom.summary}</span>
-                      <span className="text-sm text-blue-600 font-medium">
-                        {Math.round(symptom.confidence * 100)}%
-                      </span>
-                    </div>
-                    <p className="text-xs text-gray-500">{symptom.description}</p>
-                  </div>
-                ))}
+              <div className="flex items-center justify-between mb-2">
+                <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+                  <span className="text-lg">🎵</span>
+                  录音文件分析
+                </h3>
+                <span className="text-xs text-gray-400">
+                  {audioFileImport.phase !== 'uploading'
+                    ? AUDIO_IMPORT_PHASE_LABELS[audioFileImport.phase]
+                    : settledClipCount < voiceClips.length
+                      ? `${AUDIO_IMPORT_PHASE_LABELS.uploading} ${settledClipCount}/${voiceClips.length}`
+                      : `分析完成，共 ${voiceClips.length} 个片段`}
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 transition-all"
+                  style={{
+                    width: `${(audioFileImport.phase === 'uploading'
+                      ? voiceClips.length > 0 ? settledClipCount / voiceClips.length : 1
+                      : audioFileImport.progress) * 100}%`,
+                  }}
+                />
               </div>
+              {audioFileImport.phase === 'segmenting' && (
+                <p className="text-xs text-gray-400 mt-2">已切出 {audioFileImport.segmentCount} 个片段，边切分边上传</p>
+              )}
+              {audioFileImport.phase === 'uploading' && voiceClips.length === 0 && (
+                <p className="text-xs text-gray-400 mt-2">未检测到语音</p>
+              )}
             </section>
           )}
 
+          {/* 症状看板（整个问诊过程累积） */}
+          {symptomEntries.length > 0 && (
+            <SymptomBoard
+              entries={symptomEntries}
+              messages={messages}
+              onSelectMessage={handleSelectMessage}
+              onFeedback={isReviewing ? undefined : (cui, verdict, note) => {
+                void handleSymptomFeedback(cui, verdict, note)
+              }}
+            />
+          )}
+
           {/* 对话记录 */}
           <section className="bg-white rounded-2xl shadow-sm p-4">
             <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
@@ -510,19 +1539,37 @@ function App() {
               对话记录
             </h3>
             <div className="space-y-3">
-              {messages.length === 0 ? (
+              {messages.length === 0 && !partialTranscript ? (
                 <div className="text-center py-8 text-gray-400 text-sm">
                   等待对话...
                 </div>
               ) : (
                 <>
-                  {messages.map((msg) => (
+                  {mergeContinuedMessages(messages).map((msg) => (
+                    // 患者在左，医生在右
                     <div
                       key={msg.id}
-                      className="bg-gray-50 rounded-2xl rounded-tl-none px-4 py-3"
+                      id={`message-${msg.id}`}
+                      className={`max-w-[85%] rounded-2xl px-4 py-3 transition-shadow ${
+                        msg.speaker === 'doctor'
+                          ? 'ml-auto bg-emerald-50 rounded-tr-none'
+                          : 'mr-auto bg-gray-50 rounded-tl-none'
+                      } ${highlightedMessageId === msg.id ? 'ring-2 ring-blue-400' : ''}`}
                     >
-                      <p className="text-sm text-gray-800">{msg.content}</p>
-                      <p className="text-xs text-gray-400 mt-1">
+                      {/* 多个片段拼接的消息请在语音片段中逐段修正 */}
+                      <EditableTranscript
+                        text={msg.content}
+                        originalText={msg.sourceIds.length === 1 ? msg.originalContent : undefined}
+                        status={msg.correctionStatus}
+                        error={msg.correctionError}
+                        editable={msg.sourceIds.length === 1}
+                        onSave={(text) => {
+                          void handleCorrectTranscript(msg.id, text)
+                        }}
+                      />
+                      <p className={`text-xs text-gray-400 mt-1 ${msg.speaker === 'doctor' ? 'text-right' : ''}`}>
+                        {msg.speaker && `${SPEAKER_LABELS[msg.speaker]} · `}
+                        {msg.typed && '⌨ 文字输入 · '}
                         {msg.timestamp.toLocaleTimeString('zh-CN', {
                           hour: '2-digit',
                           minute: '2-digit',
@@ -531,11 +1578,44 @@ function App() {
                       </p>
                     </div>
                   ))}
+                  {/* 流式识别中间结果，收到最终结果后替换 */}
+                  {partialTranscript && (
+                    <div className="bg-gray-50 rounded-2xl rounded-tl-none px-4 py-3 border border-dashed border-gray-200">
+                      <p className="text-sm text-gray-500 italic">
+                        {partialTranscript.text || '正在识别'}…
+                      </p>
+                    </div>
+                  )}
                   <div ref={messagesEndRef} />
                 </>
               )}
             </div>
           </section>
+
+          {/* 文字输入（语音不可用时） */}
+          {!isReviewing && <TextConsultationInput onSubmit={handleSubmitText} />}
+
+          {/* 导出报告 */}
+          {conversation && (
+            <section className="bg-white rounded-2xl shadow-sm p-4">
+              <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <span className="text-lg">📄</span>
+                导出问诊报告
+              </h3>
+              <ReportExport
+                getReport={() => buildConsultationReport(conversation, mergeContinuedMessages(messages), symptomEntries)}
+                inProgress={!isReviewing}
+              />
+              <button
+                onClick={() => void handleExportArchive()}
+                disabled={isArchiving || voiceClips.length === 0}
+                className="w-full mt-2 text-sm py-2 rounded-xl bg-gray-50 text-gray-600 font-medium active:bg-gray-100 disabled:opacity-50"
+                title="全部语音片段（WAV）与转录、症状、会话信息打包为 ZIP"
+              >
+                {isArchiving ? '正在打包…' : `📦 导出会话存档（${voiceClips.length} 个片段）`}
+              </button>
+            </section>
+          )}
         </div>
       </main>
 
@@ -570,6 +1650,17 @@ function App() {
                   检测到的语音片段
                   <span className="text-xs text-gray-400 font-normal">({voiceClips.length})</span>
                 </h3>
+                {voiceClips.length > 1 && (
+                  <button
+                    onClick={() => {
+                      handlePlayAll()
+                    }}
+                    className="ml-auto mr-2 text-xs text-blue-600"
+                    title="按顺序播放全部片段"
+                  >
+                    ▶ 连续播放
+                  </button>
+                )}
                 <button
                   onClick={() => setShowVoiceClipsPanel(false)}
                   className="p-1 hover:bg-gray-200 rounded-lg transition-colors"
@@ -632,6 +1723,9 @@ function App() {
                                 </span>
                                 <span className="text-xs text-gray-400">·</span>
                                 <span className="text-xs text-gray-500">{clip.blobSize.toFixed(1)}KB</span>
+                                {clip.continuesPrevious && (
+                                  <span className="text-xs text-blue-500" title="连续说话过长，与上一片段自动切分">↔ 续</span>
+                                )}
                               </div>
                               <p className="text-xs text-gray-400">
                                 {clip.submitTime.toLocaleTimeString('zh-CN', {
@@ -642,8 +1736,13 @@ function App() {
                               </p>
                             </div>
                           </div>
-                          <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-700">
-                            {clip.transcription ? '✓' : '⏳'}
+                          <span
+                            className={`text-xs px-2 py-0.5 rounded-full ${CLIP_STATUS_STYLES[clip.uploadStatus].className}`}
+                            title={clip.uploadError}
+                          >
+                            #{clip.seq + 1} {clip.uploadStatus === 'failed' && clip.uploadRejected
+                              ? '✗ 服务器拒绝'
+                              : CLIP_STATUS_STYLES[clip.uploadStatus].label}
                           </span>
                         </div>
                         {/* 播放进度条 */}
@@ -657,9 +1756,21 @@ function App() {
                             </div>
                           </div>
                         )}
+                        {clip.uploadStatus === 'failed' && clip.uploadError && (
+                          <p className="text-xs text-red-500 mb-1 line-clamp-2">
+                            {clip.uploadRejected ? '服务器拒绝：' : '上传失败：'}{clip.uploadError}
+                          </p>
+                        )}
                         {clip.transcription && (
                           <div className="pt-1 border-t border-gray-200">
-                            <p className="text-xs text-gray-700 line-clamp-2">"{clip.transcription}"</p>
+                            <EditableTranscript
+                              text={clip.transcription}
+                              originalText={clip.originalTranscription}
+                              onSave={(text) => {
+                                handleCorrectClip(clip, text)
+                              }}
+                              className="text-xs text-gray-700"
+                            />
                           </div>
                         )}
                       </div>
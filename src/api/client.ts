@@ -0,0 +1,190 @@
+// API 配置
+export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api/v1'
+
+// 默认超时与重试配置
+const DEFAULT_TIMEOUT = 15000
+const DEFAULT_RETRY_DELAY = 500
+const MAX_RETRY_DELAY = 5000
+
+// 错误类型：
+// - http: 服务器返回了非 2xx 响应（如拒绝音频）
+// - network: 请求未到达服务器（断网、DNS、CORS 等）
+// - timeout: 超过设定时间未响应
+// - aborted: 调用方主动取消
+export type ApiErrorKind = 'http' | 'network' | 'timeout' | 'aborted'
+
+/**
+ * 接口请求错误
+ * 携带 HTTP 状态码、后端返回的 detail 以及是否值得重试
+ */
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind
+  readonly status: number | null // 非 http 错误时为 null
+  readonly detail: string | null // 后端返回的 detail
+  readonly retryable: boolean
+
+  constructor(
+    message: string,
+    { kind, status = null, detail = null }: { kind: ApiErrorKind; status?: number | null; detail?: string | null },
+  ) {
+    super(message)
+    this.name = 'ApiError'
+    this.kind = kind
+    this.status = status
+    this.detail = detail
+    this.retryable = isRetryable(kind, status)
+  }
+}
+
+// 网络错误、超时、408/429 和 5xx 可以重试；其余 4xx 与主动取消不重试
+function isRetryable(kind: ApiErrorKind, status: number | null): boolean {
+  if (kind === 'network' || kind === 'timeout') return true
+  if (kind === 'aborted' || status === null) return false
+  return status === 408 || status === 429 || status >= 500
+}
+
+export function isApiError(error: unknown): error is ApiError {
+  return error instanceof ApiError
+}
+
+// 单次调用可配置的请求参数
+export interface RequestConfig {
+  signal?: AbortSignal // 取消请求
+  timeoutMs?: number // 超时时间，默认 15 秒
+}
+
+export interface RequestOptions extends RequestConfig {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+  json?: unknown // JSON 请求体
+  body?: FormData // 表单请求体（上传文件）
+  retries?: number // 失败重试次数，仅用于幂等请求，默认 GET 重试 2 次，其余不重试
+  errorMessage: string // 后端未返回 detail 时使用的错误信息
+}
+
+// FastAPI 的 detail 可能是字符串，也可能是校验错误数组
+function parseDetail(payload: unknown): string | null {
+  if (!payload || typeof payload !== 'object' || !('detail' in payload)) return null
+  const { detail } = payload
+  if (typeof detail === 'string') return detail
+  if (detail == null) return null
+  return JSON.stringify(detail)
+}
+
+// 可被取消的等待
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError('请求已取消', { kind: 'aborted' }))
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new ApiError('请求已取消', { kind: 'aborted' }))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// 发送一次请求，signal 由 withTimeout 提供（超时或调用方取消时中止）
+async function sendOnce<T>(url: string, options: RequestOptions, signal: AbortSignal): Promise<T> {
+  const { method = 'GET', json, body, errorMessage } = options
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method,
+      headers: json !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      body: json !== undefined ? JSON.stringify(json) : body,
+      signal,
+    })
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new ApiError(`${errorMessage}：网络连接失败`, { kind: 'network', detail: (error as Error).message })
+  }
+
+  if (!response.ok) {
+    const payload: unknown = await response.json().catch(() => null)
+    const detail = parseDetail(payload)
+    throw new ApiError(detail || errorMessage, { kind: 'http', status: response.status, detail })
+  }
+
+  // 读取响应体时也可能超时或被取消；返回的不是 JSON 说明服务器异常
+  try {
+    return (await response.json()) as T
+  } catch (error) {
+    if (signal.aborted) throw error
+    throw new ApiError(`${errorMessage}：服务器返回的数据无法解析`, {
+      kind: 'http',
+      status: response.status,
+      detail: (error as Error).message,
+    })
+  }
+}
+
+// 代替网络请求处理 API 调用（演示模式下由模拟后端设置），返回值或抛出的 ApiError 与真实请求相同
+export type RequestInterceptor = (path: string, options: RequestOptions) => Promise<unknown>
+
+let requestInterceptor: RequestInterceptor | null = null
+
+export function setRequestInterceptor(interceptor: RequestInterceptor | null) {
+  requestInterceptor = interceptor
+}
+
+// 执行一次请求并统一处理超时与取消：中止后抛出的任何错误都转换为 aborted / timeout
+async function withTimeout<T>(options: RequestOptions, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT, errorMessage } = options
+
+  const controller = new AbortController()
+  const timer = setTimeout(() => {
+    controller.abort()
+  }, timeoutMs)
+  const onAbort = () => {
+    controller.abort()
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  try {
+    return await run(controller.signal)
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ApiError('请求已取消', { kind: 'aborted' })
+    }
+    // 调用方未取消但请求被中止，说明是超时
+    if (controller.signal.aborted) {
+      throw new ApiError(`${errorMessage}：请求超时`, { kind: 'timeout' })
+    }
+    throw error
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+/**
+ * 发送 API 请求
+ * 统一处理超时、取消、错误解析，并对可重试的错误做指数退避重试
+ */
+export async function request<T>(path: string, options: RequestOptions): Promise<T> {
+  const { method = 'GET', retries = method === 'GET' ? 2 : 0, signal } = options
+  const url = `${API_BASE_URL}${path}`
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const interceptor = requestInterceptor
+      return await withTimeout(options, (timeoutSignal) => interceptor
+        ? interceptor(path, { ...options, signal: timeoutSignal }) as Promise<T>
+        : sendOnce<T>(url, options, timeoutSignal))
+    } catch (error) {
+      if (!isApiError(error) || !error.retryable || attempt >= retries) {
+        throw error
+      }
+      const delay = Math.min(DEFAULT_RETRY_DELAY * 2 ** attempt, MAX_RETRY_DELAY)
+      console.warn(`[API] ${method} ${path} 失败 (${error.message})，${delay}ms 后第 ${attempt + 1} 次重试`)
+      await sleep(delay, signal)
+    }
+  }
+}
@@ -1,5 +1,7 @@
-// API 配置
-const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8000/api/v1'
+import { request, RequestConfig } from './client'
+import { Speaker } from '../audio/speaker'
+
+export { ApiError, isApiError } from './client'
 
 // 症状匹配结果
 export interface SymptomMatch {
@@ -9,6 +11,25 @@ export interface SymptomMatch {
   confidence_score: number
 }
 
+// 医生对症状匹配的判断
+export type SymptomVerdict = 'confirmed' | 'rejected' | 'uncertain'
+
+// 症状匹配反馈
+export interface SymptomFeedback {
+  cui: string
+  verdict: SymptomVerdict
+  note?: string // 医生备注
+}
+
+// 已保存的症状匹配反馈
+export interface SymptomFeedbackRecord extends SymptomFeedback {
+  feedback_id: number
+  conversation_id: number
+  message_id: number
+  created_at: string
+  updated_at: string
+}
+
 // 语音问诊响应
 export interface VoiceConsultationResponse {
   conversation_id: number
@@ -19,6 +40,16 @@ export interface VoiceConsultationResponse {
   total_matches: number
 }
 
+// 转录修正响应（按修正后的文本重新匹配症状）
+export interface TranscriptCorrectionResponse {
+  conversation_id: number
+  message_id: number
+  original_text: string
+  corrected_text: string
+  results: SymptomMatch[]
+  total_matches: number
+}
+
 // 创建会话响应
 export interface CreateConversationResponse {
   conversation_id: number
@@ -27,8 +58,8 @@ export interface CreateConversationResponse {
   created_at: string
 }
 
-// 对话详情响应
-export interface ConversationDetailResponse {
+// 对话摘要（列表项）
+export interface ConversationSummary {
   conversation_id: number
   title: string
   department: string
@@ -37,6 +68,32 @@ export interface ConversationDetailResponse {
   updated_at: string
 }
 
+// 对话中的单条消息
+export interface ConversationMessage {
+  message_id: number
+  content: string // 转录文本（修正后为修正的文本）
+  original_content?: string | null // 医生修正前的识别原文，未修正时为空
+  input_type?: 'voice' | 'text' // 语音识别或文字输入（旧数据没有，均为语音）
+  created_at: string
+  speaker?: Speaker // 说话人（旧数据可能没有）
+  results?: SymptomMatch[] // 该消息匹配到的症状
+  feedback?: SymptomFeedbackRecord[] // 医生对该消息匹配结果的反馈
+}
+
+// 对话详情响应
+export interface ConversationDetailResponse extends ConversationSummary {
+  messages?: ConversationMessage[]
+}
+
+// 对话列表响应
+export interface ConversationListResponse {
+  conversations: ConversationSummary[]
+  total: number
+}
+
+// 上传音频超时（转录耗时较长）
+const UPLOAD_TIMEOUT = 60000
+
 /**
  * 创建问诊会话
  * POST /consultation/conversation
@@ -44,24 +101,17 @@ export interface ConversationDetailResponse {
 export async function createConsultationSession(
   title?: string,
   department?: string,
+  config?: RequestConfig,
 ): Promise<CreateConversationResponse> {
-  const response = await fetch(`${API_BASE_URL}/consultation/conversation`, {
+  return request<CreateConversationResponse>('/consultation/conversation', {
+    ...config,
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
+    json: {
       title: title || '语音问诊',
       department: department || 'General',
-    }),
+    },
+    errorMessage: '创建会话失败',
   })
-
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: '创建会话失败' }))
-    throw new Error(error.detail || '创建会话失败')
-  }
-
-  return response.json()
 }
 
 /**
@@ -71,32 +121,82 @@ export async function createConsultationSession(
 export async function uploadAudio(
   audioBlob: Blob,
   conversationId?: number,
-  options?: {
+  options?: RequestConfig & {
     audioFormat?: string
+    filename?: string // 默认按 audioFormat 生成，如 audio.wav
+    speaker?: Speaker
     topK?: number
   },
 ): Promise<VoiceConsultationResponse> {
+  const audioFormat = options?.audioFormat || 'wav'
   const formData = new FormData()
-  formData.append('file', audioBlob, 'audio.wav')
+  formData.append('file', audioBlob, options?.filename || `audio.${audioFormat}`)
 
   if (conversationId) {
     formData.append('conversation_id', conversationId.toString())
   }
 
-  formData.append('audio_format', options?.audioFormat || 'wav')
+  formData.append('audio_format', audioFormat)
+  if (options?.speaker) {
+    formData.append('speaker', options.speaker)
+  }
   formData.append('top_k', (options?.topK || 5).toString())
 
-  const response = await fetch(`${API_BASE_URL}/consultation/voice`, {
+  return request<VoiceConsultationResponse>('/consultation/voice', {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs ?? UPLOAD_TIMEOUT,
     method: 'POST',
     body: formData,
+    errorMessage: '音频转录失败',
   })
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: '音频转录失败' }))
-    throw new Error(error.detail || '音频转录失败')
-  }
+/**
+ * 文字问诊 - 无法语音时直接提交文字，返回与语音问诊相同的症状匹配结果
+ * POST /consultation/text
+ */
+export async function submitTextConsultation(
+  text: string,
+  conversationId: number,
+  options?: RequestConfig & {
+    speaker?: Speaker
+    topK?: number
+  },
+): Promise<VoiceConsultationResponse> {
+  return request<VoiceConsultationResponse>('/consultation/text', {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    method: 'POST',
+    json: {
+      conversation_id: conversationId,
+      text,
+      speaker: options?.speaker,
+      top_k: options?.topK || 5,
+    },
+    errorMessage: '文字问诊失败',
+  })
+}
+
+/**
+ * 获取对话列表（按更新时间倒序）
+ * GET /consultation/conversations?skip=&limit=
+ */
+export async function listConversations(
+  options?: RequestConfig & {
+    skip?: number
+    limit?: number
+  },
+): Promise<ConversationListResponse> {
+  const params = new URLSearchParams({
+    skip: (options?.skip ?? 0).toString(),
+    limit: (options?.limit ?? 20).toString(),
+  })
 
-  return response.json()
+  return request<ConversationListResponse>(`/consultation/conversations?${params.toString()}`, {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    errorMessage: '获取对话列表失败',
+  })
 }
 
 /**
@@ -105,13 +205,60 @@ export async function uploadAudio(
  */
 export async function getConversationDetail(
   conversationId: number,
+  config?: RequestConfig,
 ): Promise<ConversationDetailResponse> {
-  const response = await fetch(`${API_BASE_URL}/consultation/conversation/${conversationId}`)
+  return request<ConversationDetailResponse>(`/consultation/conversation/${conversationId}`, {
+    ...config,
+    errorMessage: '获取对话详情失败',
+  })
+}
 
-  if (!response.ok) {
-    const error = await response.json().catch(() => ({ detail: '获取对话详情失败' }))
-    throw new Error(error.detail || '获取对话详情失败')
-  }
+/**
+ * 提交医生对症状匹配的反馈（同一消息的同一症状重复提交会覆盖之前的反馈）
+ * POST /consultation/feedback
+ */
+export async function submitSymptomFeedback(
+  conversationId: number,
+  messageId: number,
+  feedback: SymptomFeedback,
+  config?: RequestConfig,
+): Promise<SymptomFeedbackRecord> {
+  return request<SymptomFeedbackRecord>('/consultation/feedback', {
+    ...config,
+    method: 'POST',
+    json: {
+      conversation_id: conversationId,
+      message_id: messageId,
+      cui: feedback.cui,
+      verdict: feedback.verdict,
+      note: feedback.note || null,
+    },
+    // 覆盖式写入，可以安全重试
+    retries: 2,
+    errorMessage: '提交症状反馈失败',
+  })
+}
 
-  return response.json()
+/**
+ * 提交转录修正，服务器保留识别原文并按修正后的文本重新匹配症状
+ * PUT /consultation/conversation/{conversation_id}/message/{message_id}
+ */
+export async function correctTranscript(
+  conversationId: number,
+  messageId: number,
+  correctedText: string,
+  options?: RequestConfig & { topK?: number },
+): Promise<TranscriptCorrectionResponse> {
+  return request<TranscriptCorrectionResponse>(`/consultation/conversation/${conversationId}/message/${messageId}`, {
+    signal: options?.signal,
+    timeoutMs: options?.timeoutMs,
+    method: 'PUT',
+    json: {
+      corrected_text: correctedText,
+      top_k: options?.topK || 5,
+    },
+    // 覆盖式写入，可以安全重试
+    retries: 2,
+    errorMessage: '提交转录修正失败',
+  })
 }
@@ -0,0 +1,370 @@
+import { ApiError, RequestOptions, setRequestInterceptor, sleep } from './client'
+import type {
+  ConversationMessage,
+  ConversationSummary,
+  CreateConversationResponse,
+  SymptomFeedbackRecord,
+  SymptomMatch,
+  SymptomVerdict,
+  TranscriptCorrectionResponse,
+  VoiceConsultationResponse,
+} from './consultation'
+import { MOCK_DOCTOR_LINES, MOCK_PATIENT_LINES, MOCK_SYMPTOMS } from './mockDataset'
+import { Speaker } from '../audio/speaker'
+
+// 演示模式：在浏览器内模拟后端接口，无需启动服务器即可完整体验问诊流程
+// 会话数据保存在本地，可配置响应延迟和错误注入，用于演示和测试重试、离线队列等逻辑
+
+// 注入的错误类型：
+// - network / timeout: 与真实请求的网络错误、超时相同，可重试
+// - server: 服务器 500 错误，可重试
+// - rejected: 服务器 422 拒绝（如音频无法识别），不重试
+export type MockErrorKind = 'network' | 'timeout' | 'server' | 'rejected'
+
+export interface MockApiSettings {
+  enabled: boolean
+  latency: number // 平均响应延迟 (ms)，实际延迟在 ±30% 范围内浮动
+  errorRate: number // 每次请求失败的概率（0 ~ 1）
+  errorKind: MockErrorKind
+}
+
+const SETTINGS_KEY = 'medi-bridge:mock-api'
+const DATA_KEY = 'medi-bridge:mock-api-data'
+
+const DEFAULT_SETTINGS: MockApiSettings = {
+  enabled: import.meta.env.VITE_API_MOCK === 'true',
+  latency: 600,
+  errorRate: 0,
+  errorKind: 'server',
+}
+
+interface MockConversation extends ConversationSummary {
+  messages: ConversationMessage[]
+  patientLine: number // 下一句模拟患者描述的序号
+  doctorLine: number
+}
+
+interface MockDatabase {
+  nextConversationId: number
+  nextMessageId: number
+  nextFeedbackId: number
+  conversations: MockConversation[]
+}
+
+let settings = loadSettings()
+let database: MockDatabase | null = null
+
+function loadSettings(): MockApiSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY)
+    return saved ? { ...DEFAULT_SETTINGS, ...(JSON.parse(saved) as Partial<MockApiSettings>) } : DEFAULT_SETTINGS
+  } catch {
+    return DEFAULT_SETTINGS
+  }
+}
+
+function getDatabase(): MockDatabase {
+  if (!database) {
+    try {
+      const saved = localStorage.getItem(DATA_KEY)
+      if (saved) database = JSON.parse(saved) as MockDatabase
+    } catch {
+      // 数据损坏时重新开始
+    }
+    database ??= { nextConversationId: 1, nextMessageId: 1, nextFeedbackId: 1, conversations: [] }
+  }
+  return database
+}
+
+function saveDatabase() {
+  try {
+    localStorage.setItem(DATA_KEY, JSON.stringify(database))
+  } catch {
+    // 隐私模式等情况下无法保存，仅本次生效
+  }
+}
+
+// 简单的字符串哈希，用于生成稳定的置信度
+function hash(text: string): number {
+  let value = 0
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) >>> 0
+  }
+  return value
+}
+
+/**
+ * 按关键词匹配症状：直接提到的症状置信度 0.80 ~ 0.95，相关症状 0.35 ~ 0.55
+ * 相同文本总是得到相同的结果
+ */
+export function matchMockSymptoms(text: string, topK = 5): SymptomMatch[] {
+  const scores = new Map<string, number>()
+  for (const symptom of MOCK_SYMPTOMS) {
+    if (!symptom.keywords.some((keyword) => text.includes(keyword))) continue
+    scores.set(symptom.cui, 0.8 + (hash(text + symptom.cui) % 16) / 100)
+    for (const cui of symptom.related ?? []) {
+      if (!scores.has(cui)) scores.set(cui, 0.35 + (hash(text + cui) % 21) / 100)
+    }
+  }
+
+  return MOCK_SYMPTOMS
+    .filter((symptom) => scores.has(symptom.cui))
+    .map((symptom) => ({
+      cui: symptom.cui,
+      summary: symptom.summary,
+      full_description: symptom.description,
+      confidence_score: scores.get(symptom.cui) ?? 0,
+    }))
+    .sort((a, b) => b.confidence_score - a.confidence_score)
+    .slice(0, topK)
+}
+
+function findConversation(conversationId: number): MockConversation {
+  const conversation = getDatabase().conversations.find((item) => item.conversation_id === conversationId)
+  if (!conversation) {
+    throw new ApiError('对话不存在', { kind: 'http', status: 404, detail: '对话不存在' })
+  }
+  return conversation
+}
+
+function toSummary({ conversation_id, title, department, message_count, created_at, updated_at }: MockConversation): ConversationSummary {
+  return { conversation_id, title, department, message_count, created_at, updated_at }
+}
+
+// 在对话中添加一条消息，返回与语音/文字问诊相同的响应
+function addMessage(
+  conversation: MockConversation,
+  text: string,
+  { speaker, inputType, topK }: { speaker?: Speaker; inputType: 'voice' | 'text'; topK: number },
+): VoiceConsultationResponse {
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  // 医生的提问不匹配症状
+  const results = speaker === 'doctor' ? [] : matchMockSymptoms(text, topK)
+  const message: ConversationMessage = {
+    message_id: db.nextMessageId++,
+    content: text,
+    original_content: null,
+    input_type: inputType,
+    created_at: now,
+    speaker,
+    results,
+    feedback: [],
+  }
+  conversation.messages.push(message)
+  conversation.message_count = conversation.messages.length
+  conversation.updated_at = now
+  saveDatabase()
+
+  return {
+    conversation_id: conversation.conversation_id,
+    message_id: message.message_id,
+    recognized_text: text,
+    query: text,
+    results,
+    total_matches: results.length,
+  }
+}
+
+function createConversation(json: { title?: string; department?: string }): CreateConversationResponse {
+  const db = getDatabase()
+  const now = new Date().toISOString()
+  const conversation: MockConversation = {
+    conversation_id: db.nextConversationId++,
+    title: json.title || '语音问诊',
+    department: json.department || 'General',
+    message_count: 0,
+    created_at: now,
+    updated_at: now,
+    messages: [],
+    patientLine: 0,
+    doctorLine: 0,
+  }
+  db.conversations.push(conversation)
+  saveDatabase()
+  return {
+    conversation_id: conversation.conversation_id,
+    title: conversation.title,
+    department: conversation.department,
+    created_at: conversation.created_at,
+  }
+}
+
+// 语音上传：按说话人依次返回预置的对话内容（不解析音频）
+function uploadVoice(body: FormData | undefined): VoiceConsultationResponse {
+  const conversationId = Number(body?.get('conversation_id'))
+  const speaker = (body?.get('speaker') ?? undefined) as Speaker | undefined
+  const topK = Number(body?.get('top_k')) || 5
+  const conversation = conversationId
+    ? findConversation(conversationId)
+    : findConversation(createConversation({}).conversation_id)
+
+  let text: string
+  if (speaker === 'doctor') {
+    text = MOCK_DOCTOR_LINES[conversation.doctorLine++ % MOCK_DOCTOR_LINES.length]
+  } else {
+    text = MOCK_PATIENT_LINES[conversation.patientLine++ % MOCK_PATIENT_LINES.length]
+  }
+  return addMessage(conversation, text, { speaker, inputType: 'voice', topK })
+}
+
+function submitFeedback(json: {
+  conversation_id: number
+  message_id: number
+  cui: string
+  verdict: SymptomVerdict
+  note: string | null
+}): SymptomFeedbackRecord {
+  const message = findMessage(json.conversation_id, json.message_id)
+  const now = new Date().toISOString()
+  const feedback = message.feedback ?? []
+  const existing = feedback.find((item) => item.cui === json.cui)
+  // 同一消息的同一症状覆盖之前的反馈
+  const record: SymptomFeedbackRecord = {
+    feedback_id: existing?.feedback_id ?? getDatabase().nextFeedbackId++,
+    conversation_id: json.conversation_id,
+    message_id: json.message_id,
+    cui: json.cui,
+    verdict: json.verdict,
+    note: json.note ?? undefined,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  }
+  message.feedback = [...feedback.filter((item) => item.cui !== json.cui), record]
+  saveDatabase()
+  return record
+}
+
+function findMessage(conversationId: number, messageId: number): ConversationMessage {
+  const message = findConversation(conversationId).messages.find((item) => item.message_id === messageId)
+  if (!message) {
+    throw new ApiError('消息不存在', { kind: 'http', status: 404, detail: '消息不存在' })
+  }
+  return message
+}
+
+function correctMessage(
+  conversationId: number,
+  messageId: number,
+  json: { corrected_text: string; top_k?: number },
+): TranscriptCorrectionResponse {
+  const message = findMessage(conversationId, messageId)
+  const originalText = message.original_content ?? message.content
+  const results = message.speaker === 'doctor' ? [] : matchMockSymptoms(json.corrected_text, json.top_k || 5)
+  message.original_content = originalText
+  message.content = json.corrected_text
+  message.results = results
+  message.feedback = [] // 匹配结果已更换，之前的反馈不再适用
+  saveDatabase()
+  return {
+    conversation_id: conversationId,
+    message_id: messageId,
+    original_text: originalText,
+    corrected_text: json.corrected_text,
+    results,
+    total_matches: results.length,
+  }
+}
+
+// 按路径分发到对应的模拟接口
+function route(path: string, { method = 'GET', json, body }: RequestOptions): unknown {
+  const url = new URL(path, 'http://mock.local')
+  const segments = url.pathname.split('/').filter(Boolean)
+
+  if (method === 'POST' && url.pathname === '/consultation/conversation') {
+    return createConversation(json ?? {})
+  }
+  if (method === 'POST' && url.pathname === '/consultation/voice') {
+    return uploadVoice(body)
+  }
+  if (method === 'POST' && url.pathname === '/consultation/text') {
+    const { conversation_id, text, speaker, top_k } = json as { conversation_id: number; text: string; speaker?: Speaker; top_k?: number }
+    return addMessage(findConversation(conversation_id), text, { speaker, inputType: 'text', topK: top_k || 5 })
+  }
+  if (method === 'POST' && url.pathname === '/consultation/feedback') {
+    return submitFeedback(json as Parameters<typeof submitFeedback>[0])
+  }
+  if (method === 'GET' && url.pathname === '/consultation/conversations') {
+    const skip = Number(url.searchParams.get('skip')) || 0
+    const limit = Number(url.searchParams.get('limit')) || 20
+    const conversations = [...getDatabase().conversations].sort((a, b) => b.updated_at.localeCompare(a.updated_at))
+    return { conversations: conversations.slice(skip, skip + limit).map(toSummary), total: conversations.length }
+  }
+  // /consultation/conversation/{id}
+  if (method === 'GET' && segments.length === 3 && segments[1] === 'conversation') {
+    const conversation = findConversation(Number(segments[2]))
+    return { ...toSummary(conversation), messages: conversation.messages }
+  }
+  // /consultation/conversation/{id}/message/{message_id}
+  if (method === 'PUT' && segments.length === 5 && segments[1] === 'conversation' && segments[3] === 'message') {
+    return correctMessage(Number(segments[2]), Number(segments[4]), json as { corrected_text: string; top_k?: number })
+  }
+
+  throw new ApiError('Not Found', { kind: 'http', status: 404, detail: `模拟后端不支持 ${method} ${url.pathname}` })
+}
+
+// 按设置的概率注入错误，错误信息与真实请求一致
+function injectError(path: string, { errorMessage }: RequestOptions) {
+  if (settings.errorRate <= 0 || Math.random() >= settings.errorRate) return
+  console.warn(`[演示模式] 注入错误 (${settings.errorKind}): ${path}`)
+  switch (settings.errorKind) {
+    case 'network':
+      throw new ApiError(`${errorMessage}：网络连接失败`, { kind: 'network', detail: 'Failed to fetch（模拟）' })
+    case 'timeout':
+      throw new ApiError(`${errorMessage}：请求超时`, { kind: 'timeout' })
+    case 'server':
+      throw new ApiError('服务器内部错误（模拟）', { kind: 'http', status: 500, detail: '服务器内部错误（模拟）' })
+    case 'rejected': {
+      const detail = path.startsWith('/consultation/voice') ? '音频无法识别（模拟）' : '请求被拒绝（模拟）'
+      throw new ApiError(detail, { kind: 'http', status: 422, detail })
+    }
+  }
+}
+
+async function handleMockRequest(path: string, options: RequestOptions): Promise<unknown> {
+  const delay = settings.latency * (0.7 + Math.random() * 0.6)
+  await sleep(delay, options.signal)
+  injectError(path, options)
+  // 返回副本，避免调用方修改到模拟数据
+  return structuredClone(route(path, options))
+}
+
+export function getMockApiSettings(): MockApiSettings {
+  return settings
+}
+
+/**
+ * 修改演示模式设置并保存，启用后所有接口请求由模拟后端处理
+ */
+export function updateMockApiSettings(changes: Partial<MockApiSettings>): MockApiSettings {
+  const wasEnabled = settings.enabled
+  settings = { ...settings, ...changes }
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // 隐私模式等情况下无法保存，仅本次生效
+  }
+  // 延迟和错误率在每次请求时读取，只有开关变化时需要重新设置
+  if (settings.enabled !== wasEnabled) applyMockApiSettings()
+  return settings
+}
+
+/**
+ * 按当前设置启用或关闭模拟后端（应用启动时调用）
+ */
+export function applyMockApiSettings() {
+  setRequestInterceptor(settings.enabled ? handleMockRequest : null)
+  if (settings.enabled) console.log('[演示模式] 已启用模拟后端，接口请求不会发送到服务器')
+}
+
+/**
+ * 清空模拟后端保存的会话数据
+ */
+export function resetMockApiData() {
+  database = null
+  try {
+    localStorage.removeItem(DATA_KEY)
+  } catch {
+    // 忽略
+  }
+}
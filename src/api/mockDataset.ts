@@ -0,0 +1,152 @@
+// 演示模式的预置数据：常见症状（UMLS CUI）及其关键词，以及模拟的医患对话
+// 语音上传按顺序返回对话中的句子，文字输入和转录修正按关键词匹配症状
+
+export interface MockSymptom {
+  cui: string
+  summary: string
+  description: string
+  keywords: string[] // 出现任一关键词即视为提到该症状
+  related?: string[] // 相关症状的 CUI，以较低置信度一并返回
+}
+
+export const MOCK_SYMPTOMS: MockSymptom[] = [
+  {
+    cui: 'C0018681',
+    summary: '头痛 (Headache)',
+    description: '头部或上颈部的疼痛，可表现为胀痛、跳痛或紧箍感，常见于感冒、偏头痛、紧张性头痛等。',
+    keywords: ['头疼', '头痛', '脑袋疼'],
+    related: ['C0012833'],
+  },
+  {
+    cui: 'C0015967',
+    summary: '发热 (Fever)',
+    description: '体温高于正常范围（腋温 37.3℃ 以上），多由感染引起，也可见于炎症、肿瘤等。',
+    keywords: ['发烧', '发热', '体温', '烧到'],
+    related: ['C0085593'],
+  },
+  {
+    cui: 'C0085593',
+    summary: '寒战 (Chills)',
+    description: '伴有肌肉不自主颤抖的发冷感，常出现在体温快速上升时。',
+    keywords: ['发冷', '怕冷', '打寒战', '哆嗦'],
+    related: ['C0015967'],
+  },
+  {
+    cui: 'C0010200',
+    summary: '咳嗽 (Coughing)',
+    description: '气道受刺激引起的保护性反射，可为干咳或有痰，常见于上呼吸道感染、支气管炎。',
+    keywords: ['咳嗽', '咳', '有痰'],
+    related: ['C0242429'],
+  },
+  {
+    cui: 'C0242429',
+    summary: '咽痛 (Sore throat)',
+    description: '咽部疼痛或不适，吞咽时加重，多见于咽炎、扁桃体炎。',
+    keywords: ['嗓子疼', '喉咙疼', '咽痛', '嗓子痛', '喉咙痛'],
+    related: ['C0010200'],
+  },
+  {
+    cui: 'C1260880',
+    summary: '流涕 (Rhinorrhea)',
+    description: '鼻腔分泌物增多，清涕多见于病毒感染或过敏，脓涕提示细菌感染可能。',
+    keywords: ['流鼻涕', '鼻涕', '鼻塞'],
+  },
+  {
+    cui: 'C0015672',
+    summary: '乏力 (Fatigue)',
+    description: '持续的疲倦、无力感，休息后不能明显缓解，可见于感染、贫血、甲状腺疾病等。',
+    keywords: ['没劲', '乏力', '累', '没力气', '浑身无力'],
+    related: ['C0231528'],
+  },
+  {
+    cui: 'C0231528',
+    summary: '肌肉痛 (Myalgia)',
+    description: '肌肉的酸痛或压痛，常伴随流感等全身性感染。',
+    keywords: ['肌肉疼', '浑身疼', '身上酸', '全身酸痛'],
+    related: ['C0015672'],
+  },
+  {
+    cui: 'C0012833',
+    summary: '头晕 (Dizziness)',
+    description: '头昏、站立不稳或天旋地转感，可由血压异常、贫血、前庭疾病等引起。',
+    keywords: ['头晕', '晕', '天旋地转'],
+    related: ['C0018681'],
+  },
+  {
+    cui: 'C0027497',
+    summary: '恶心 (Nausea)',
+    description: '上腹部不适和想要呕吐的感觉，常见于胃肠道疾病，也可由药物、妊娠等引起。',
+    keywords: ['恶心', '想吐', '反胃'],
+    related: ['C0042963'],
+  },
+  {
+    cui: 'C0042963',
+    summary: '呕吐 (Vomiting)',
+    description: '胃内容物经口排出，频繁呕吐需注意脱水和电解质紊乱。',
+    keywords: ['吐了', '呕吐'],
+    related: ['C0027497'],
+  },
+  {
+    cui: 'C0000737',
+    summary: '腹痛 (Abdominal pain)',
+    description: '腹部的疼痛，部位和性质有助于判断来源，如胃肠炎、阑尾炎、胆囊炎等。',
+    keywords: ['肚子疼', '肚子痛', '腹痛', '胃疼'],
+    related: ['C0011991'],
+  },
+  {
+    cui: 'C0011991',
+    summary: '腹泻 (Diarrhea)',
+    description: '排便次数增多、粪便稀薄，急性腹泻多由感染或饮食不当引起。',
+    keywords: ['拉肚子', '腹泻', '稀便'],
+    related: ['C0000737'],
+  },
+  {
+    cui: 'C0003123',
+    summary: '食欲不振 (Anorexia)',
+    description: '进食欲望下降，可伴随多种急慢性疾病。',
+    keywords: ['不想吃', '没胃口', '吃不下'],
+  },
+  {
+    cui: 'C0013404',
+    summary: '呼吸困难 (Dyspnea)',
+    description: '主观感觉空气不足、呼吸费力，需排查心肺疾病。',
+    keywords: ['喘不上气', '呼吸困难', '憋气', '气短'],
+    related: ['C0008031'],
+  },
+  {
+    cui: 'C0008031',
+    summary: '胸痛 (Chest pain)',
+    description: '胸部的疼痛或压迫感，需警惕心肌缺血、肺栓塞等急症。',
+    keywords: ['胸口疼', '胸痛', '胸闷'],
+    related: ['C0013404'],
+  },
+  {
+    cui: 'C0003862',
+    summary: '关节痛 (Arthralgia)',
+    description: '一个或多个关节的疼痛，可见于关节炎、病毒感染后等。',
+    keywords: ['关节疼', '关节痛', '膝盖疼'],
+  },
+]
+
+// 模拟对话：患者的描述（语音上传按顺序循环返回）
+export const MOCK_PATIENT_LINES = [
+  '医生您好，我这两天一直头疼，昨天晚上开始发烧',
+  '最高烧到三十八度五，还有点发冷',
+  '嗓子疼，咽东西的时候更明显，偶尔咳嗽',
+  '浑身没劲，全身酸痛，也不太想吃东西',
+  '没有拉肚子，就是早上有点恶心',
+  '之前没有什么慢性病，也没有药物过敏',
+  '家里孩子上周也感冒了，流鼻涕咳嗽',
+  '吃了一片退烧药，过了几个小时又烧起来了',
+]
+
+// 模拟对话：医生的提问（标记为医生发言的片段按顺序循环返回）
+export const MOCK_DOCTOR_LINES = [
+  '您好，哪里不舒服？',
+  '发烧最高多少度？有没有发冷？',
+  '有没有咳嗽、嗓子疼？',
+  '胃口怎么样，有没有拉肚子？',
+  '以前有什么病吗？对什么药过敏吗？',
+  '身边有没有人有类似的症状？',
+  '我先给您查个血常规，看看是不是细菌感染',
+]
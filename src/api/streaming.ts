@@ -0,0 +1,65 @@
+import { API_BASE_URL } from './client'
+import { SymptomMatch } from './consultation'
+import { Speaker } from '../audio/speaker'
+
+// 流式识别 WebSocket 地址，默认由 API 地址推导
+export const STREAMING_ASR_URL =
+  import.meta.env.VITE_ASR_WS_URL || `${API_BASE_URL.replace(/^http/, 'ws')}/consultation/stream`
+
+// 流式识别采样率（与录音一致）
+export const STREAMING_SAMPLE_RATE = 16000
+
+/**
+ * 流式识别协议
+ *
+ * 客户端 → 服务器：
+ * - 文本 {"type":"start","segment_id":1,"sample_rate":16000}  开始一个语音片段
+ * - 二进制 16-bit PCM（小端，单声道）                         片段音频数据
+ * - 文本 {"type":"end","segment_id":1,"speaker":"patient"}     片段结束，请求最终结果（speaker 可选）
+ * - 文本 {"type":"cancel","segment_id":1}                      放弃片段（过短）
+ *
+ * 服务器 → 客户端：
+ * - {"type":"partial","segment_id":1,"text":"..."}             中间结果，可能被后续结果替换
+ * - {"type":"final","segment_id":1,"text":"...","message_id":12,"results":[...]}
+ * - {"type":"error","segment_id":1,"message":"..."}
+ */
+export type StreamingClientMessage =
+  | { type: 'start'; segment_id: number; sample_rate: number }
+  | { type: 'end'; segment_id: number; speaker?: Speaker }
+  | { type: 'cancel'; segment_id: number }
+
+// 片段最终识别结果
+export interface StreamingFinalResult {
+  segment_id: number
+  text: string
+  message_id?: number
+  results?: SymptomMatch[]
+}
+
+export type StreamingServerMessage =
+  | { type: 'partial'; segment_id: number; text: string }
+  | ({ type: 'final' } & StreamingFinalResult)
+  | { type: 'error'; segment_id?: number; message: string }
+
+/**
+ * 构建流式识别连接地址
+ */
+export function buildStreamingUrl(conversationId: number): string {
+  const url = new URL(STREAMING_ASR_URL)
+  url.searchParams.set('conversation_id', conversationId.toString())
+  url.searchParams.set('sample_rate', STREAMING_SAMPLE_RATE.toString())
+  return url.toString()
+}
+
+/**
+ * Float32 PCM 转为 16-bit PCM（小端）
+ */
+export function floatTo16BitBuffer(samples: Float32Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(samples.length * 2)
+  const view = new DataView(buffer)
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]))
+    view.setInt16(i * 2, s < 0 ? s * 0x8000 : s * 0x7FFF, true)
+  }
+  return buffer
+}
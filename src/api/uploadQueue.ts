@@ -0,0 +1,98 @@
+// 持久化上传队列（IndexedDB）
+// 录音产生的每个语音片段先写入队列，再由 useUploadQueue 按顺序上传，
+// 网络中断或刷新页面都不会丢失片段
+
+import { AudioFormat } from '../audio/encoders'
+import { Speaker } from '../audio/speaker'
+
+const DB_NAME = 'medi-bridge'
+const DB_VERSION = 1
+const STORE_NAME = 'upload-queue'
+
+// 队列条目状态
+export type UploadQueueItemStatus = 'queued' | 'uploading' | 'failed'
+
+// 队列条目
+export interface UploadQueueItem {
+  id: string
+  conversationId: number
+  clipId?: string // 对应界面上的语音片段
+  seq: number // 片段在会话中的序号（说话顺序）
+  continuesPrevious?: boolean // 超长语音强制切分出的后续片段，转录需与上一片段拼接
+  blob: Blob
+  audioFormat?: AudioFormat // 旧版本入队的条目没有该字段，均为 WAV
+  speaker?: Speaker
+  createdAt: number
+  attempts: number // 已失败的尝试次数
+  status: UploadQueueItemStatus
+  nextAttemptAt: number // 下次允许上传的时间戳（退避）
+  lastError?: string
+  rejected?: boolean // 服务器明确拒绝（不可重试的错误），区别于网络问题
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+    }
+
+    request.onsuccess = () => {
+      resolve(request.result)
+    }
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error ?? new Error('无法打开上传队列数据库'))
+    }
+  })
+
+  return dbPromise
+}
+
+// 在单个事务中执行请求
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode)
+    const request = action(transaction.objectStore(STORE_NAME))
+    transaction.oncomplete = () => {
+      resolve(request.result)
+    }
+    transaction.onerror = () => {
+      reject(transaction.error ?? new Error('上传队列读写失败'))
+    }
+  })
+}
+
+/**
+ * 写入或更新队列条目
+ */
+export async function putQueueItem(item: UploadQueueItem): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(item))
+}
+
+/**
+ * 删除队列条目（上传成功后调用）
+ */
+export async function deleteQueueItem(id: string): Promise<void> {
+  await runRequest('readwrite', (store) => store.delete(id))
+}
+
+/**
+ * 读取全部队列条目，按会话、片段序号排序（同一毫秒入队的片段仅靠入队时间无法区分先后）
+ */
+export async function getAllQueueItems(): Promise<UploadQueueItem[]> {
+  const items = await runRequest('readonly', (store) => store.getAll() as IDBRequest<UploadQueueItem[]>)
+  return items.sort((a, b) => a.conversationId - b.conversationId || a.seq - b.seq || a.createdAt - b.createdAt)
+}
@@ -0,0 +1,137 @@
+import { VoiceActivityDetector } from './vad'
+import { SpeechSegmenter, SpeechSegment } from './segmenter'
+import { Resampler } from './resampler'
+
+// 离线分析音频文件：解码、重采样到 16kHz 单声道，再用与实时录音相同的 VAD 和分段器切出语音片段
+
+// 语音片段采样率，与录音片段一致
+export const SEGMENT_SAMPLE_RATE = 16000
+
+// 文件选择框可接受的格式（实际能否解码取决于浏览器）
+export const AUDIO_FILE_ACCEPT = '.wav,.mp3,.m4a,.webm,audio/wav,audio/mpeg,audio/mp4,audio/webm'
+
+// 分段参数，与 useAudioRecorder 的同名选项含义和默认值一致
+export interface SegmentationOptions {
+  silenceThreshold?: number // 能量阈值（0-1 电平）
+  silenceDuration?: number // 连续静音多久判定说话结束 (ms)
+  minSpeechDuration?: number // 最短语音时长 (ms)
+  speechOnsetDuration?: number // 连续有声多久确认开始说话 (ms)
+  preRollDuration?: number // 片段在说话起点之前保留的音频 (ms)
+  trailingSilenceDuration?: number // 片段末尾保留的静音 (ms)
+  maxSegmentDuration?: number // 单个片段最长时长 (ms)，0 表示不限制
+  adaptiveThreshold?: boolean // 根据环境噪声缓慢调整阈值
+  calibrationDuration?: number // 开头测量环境噪声的时长 (ms)，0 表示不校准
+}
+
+export const DEFAULT_SEGMENTATION: Required<SegmentationOptions> = {
+  silenceThreshold: 0.15,
+  silenceDuration: 2000,
+  minSpeechDuration: 800,
+  speechOnsetDuration: 100,
+  preRollDuration: 300,
+  trailingSilenceDuration: 200,
+  maxSegmentDuration: 30000,
+  adaptiveThreshold: false,
+  calibrationDuration: 0,
+}
+
+interface SegmentSamplesOptions extends SegmentationOptions {
+  sampleRate?: number // 默认 SEGMENT_SAMPLE_RATE
+  chunkSize?: number // 每次送入 VAD 的采样点数，默认 4096
+  onSegment?: (segment: SpeechSegment) => void
+  onProgress?: (processed: number, total: number) => void // 按采样点计
+}
+
+// 每处理多少个数据块让出一次主线程，保证进度条能刷新
+const YIELD_INTERVAL = 16
+
+/**
+ * 解码音频文件并转换为指定采样率的单声道 PCM
+ * 多声道取平均值，再用与录音相同的重采样器转换采样率
+ */
+export async function decodeAudioFile(file: Blob, sampleRate = SEGMENT_SAMPLE_RATE): Promise<Float32Array> {
+  // decodeAudioData 会把结果重采样到上下文采样率，这里按 48kHz 解码，保留足够带宽再统一降采样
+  const context = new OfflineAudioContext(1, 1, 48000)
+  let buffer: AudioBuffer
+  try {
+    buffer = await context.decodeAudioData(await file.arrayBuffer())
+  } catch (error) {
+    throw new Error(`无法解码音频文件（${(error as Error).message || '格式不受支持'}）`)
+  }
+
+  const mono = new Float32Array(buffer.length)
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel)
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels
+    }
+  }
+
+  const resampler = new Resampler({ inputRate: buffer.sampleRate, outputRate: sampleRate })
+  const head = resampler.process(mono)
+  // 补零冲刷出重采样器延迟内的最后一段输出
+  const tail = resampler.process(new Float32Array(Math.ceil(buffer.sampleRate / 10)))
+  const length = Math.min(head.length + tail.length, Math.round(buffer.duration * sampleRate))
+  const output = new Float32Array(length)
+  output.set(head.subarray(0, length))
+  if (length > head.length) output.set(tail.subarray(0, length - head.length), head.length)
+
+  console.log(`[音频文件] ✓ 解码完成: ${buffer.duration.toFixed(1)}s, ${buffer.numberOfChannels} 声道, ${buffer.sampleRate}Hz → ${sampleRate}Hz 单声道`)
+  return output
+}
+
+/**
+ * 用 VAD 和分段器切分整段 PCM，返回全部语音片段
+ * 与录音时的处理顺序相同：先写入分段器，再处理该数据块产生的说话开始/结束事件
+ */
+export async function segmentSamples(samples: Float32Array, options: SegmentSamplesOptions): Promise<SpeechSegment[]> {
+  const config = { ...DEFAULT_SEGMENTATION, ...options }
+  const sampleRate = options.sampleRate ?? SEGMENT_SAMPLE_RATE
+  const chunkSize = options.chunkSize ?? 4096
+  const segments: SpeechSegment[] = []
+
+  const vad = new VoiceActivityDetector({
+    sampleRate,
+    threshold: config.silenceThreshold,
+    onsetDuration: config.speechOnsetDuration,
+    hangoverDuration: config.silenceDuration,
+    calibrationDuration: config.calibrationDuration,
+    adaptive: config.adaptiveThreshold,
+  })
+  const segmenter = new SpeechSegmenter({
+    sampleRate,
+    minSpeechDuration: config.minSpeechDuration,
+    retainDuration: config.speechOnsetDuration + config.preRollDuration + 500,
+    preRollDuration: config.preRollDuration,
+    trailingSilenceDuration: config.trailingSilenceDuration,
+    maxSegmentDuration: config.maxSegmentDuration,
+    onSegment: (segment) => {
+      segments.push(segment)
+      options.onSegment?.(segment)
+    },
+    onDiscard: (duration) => {
+      console.log(`[音频文件] ✗ 语音片段太短 (${duration.toFixed(0)}ms < ${config.minSpeechDuration}ms)，已丢弃`)
+    },
+  })
+
+  for (let start = 0, chunk = 0; start < samples.length; start += chunkSize, chunk++) {
+    const data = samples.slice(start, start + chunkSize)
+    const events = vad.process(data)
+    segmenter.push(data, start)
+    for (const event of events) {
+      if (event.type === 'speech-start' || event.type === 'speech-end') {
+        segmenter.handleEvent(event)
+      }
+    }
+
+    if (chunk % YIELD_INTERVAL === YIELD_INTERVAL - 1) {
+      options.onProgress?.(start + data.length, samples.length)
+      await new Promise((resolve) => setTimeout(resolve, 0))
+    }
+  }
+
+  // 文件结尾仍在说话：按结束处理最后一段
+  segmenter.flush()
+  options.onProgress?.(samples.length, samples.length)
+  return segments
+}
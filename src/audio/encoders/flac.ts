@@ -0,0 +1,298 @@
+import { SegmentEncoder } from './types'
+
+// FLAC 无损编码（16-bit 单声道）
+// 每帧分别尝试 0-4 阶固定预测器，残差用分区 Rice 编码，选最省空间的方式。
+
+const BLOCK_SIZE = 4096
+const BITS_PER_SAMPLE = 16
+const MAX_FIXED_ORDER = 4
+const MAX_PARTITION_ORDER = 8
+const MAX_RICE_PARAMETER = 14 // 4-bit Rice 参数，15 为转义码
+
+// 按位写入
+class BitWriter {
+  private buffer = new Uint8Array(1024)
+  private length = 0 // 已写满的字节数
+  private accumulator = 0
+  private accumulatedBits = 0
+
+  get byteLength(): number {
+    return this.length
+  }
+
+  // 写入不超过 24 位的无符号整数
+  write(value: number, bits: number) {
+    this.accumulator = this.accumulator * (1 << bits) + value
+    this.accumulatedBits += bits
+    while (this.accumulatedBits >= 8) {
+      this.accumulatedBits -= 8
+      const divisor = 2 ** this.accumulatedBits
+      this.pushByte(Math.floor(this.accumulator / divisor))
+      this.accumulator %= divisor
+    }
+  }
+
+  // 有符号整数按补码写入
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits)
+  }
+
+  // 一元码：q 个 0 后接 1
+  writeUnary(q: number) {
+    let zeros = q
+    while (zeros >= 24) {
+      this.write(0, 24)
+      zeros -= 24
+    }
+    this.write(1, zeros + 1)
+  }
+
+  // 补零到字节边界
+  align() {
+    if (this.accumulatedBits > 0) {
+      this.write(0, 8 - this.accumulatedBits)
+    }
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length)
+  }
+
+  private pushByte(byte: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2)
+      grown.set(this.buffer)
+      this.buffer = grown
+    }
+    this.buffer[this.length++] = byte
+  }
+}
+
+function crc8(data: Uint8Array, start: number, end: number): number {
+  let crc = 0
+  for (let i = start; i < end; i++) {
+    crc ^= data[i]
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF
+    }
+  }
+  return crc
+}
+
+function crc16(data: Uint8Array): number {
+  let crc = 0
+  for (const byte of data) {
+    crc ^= byte << 8
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xFFFF : (crc << 1) & 0xFFFF
+    }
+  }
+  return crc
+}
+
+// 帧号按 FLAC 的类 UTF-8 方式编码
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8)
+    return
+  }
+  let continuation = 1
+  while (value >= 2 ** (6 + 5 * continuation)) continuation++
+  const totalBytes = continuation + 1
+  const leading = (0xFF00 >> totalBytes) & 0xFF
+  writer.write(leading | Math.floor(value / 2 ** (6 * continuation)), 8)
+  for (let i = continuation - 1; i >= 0; i--) {
+    writer.write(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3F), 8)
+  }
+}
+
+// 固定预测器残差
+function fixedResidual(samples: Int32Array, order: number): Int32Array {
+  const residual = new Int32Array(samples.length - order)
+  for (let i = order; i < samples.length; i++) {
+    const s = samples
+    let prediction = 0
+    switch (order) {
+      case 1: prediction = s[i - 1]; break
+      case 2: prediction = 2 * s[i - 1] - s[i - 2]; break
+      case 3: prediction = 3 * s[i - 1] - 3 * s[i - 2] + s[i - 3]; break
+      case 4: prediction = 4 * s[i - 1] - 6 * s[i - 2] + 4 * s[i - 3] - s[i - 4]; break
+    }
+    residual[i - order] = s[i] - prediction
+  }
+  return residual
+}
+
+// 有符号残差映射为无符号（zigzag）
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1
+}
+
+interface RiceChoice {
+  partitionOrder: number
+  parameters: number[]
+  bits: number
+}
+
+// 单个分区的最佳 Rice 参数及其编码位数
+function bestRiceParameter(residual: Int32Array, from: number, to: number): { parameter: number; bits: number } {
+  let sum = 0
+  for (let i = from; i < to; i++) sum += zigzag(residual[i])
+  const count = to - from
+  const mean = count > 0 ? sum / count : 0
+  const estimate = mean > 1 ? Math.min(MAX_RICE_PARAMETER, Math.floor(Math.log2(mean))) : 0
+
+  let best = { parameter: 0, bits: Infinity }
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAMETER, estimate + 1); k++) {
+    let bits = 4 + count * (k + 1)
+    for (let i = from; i < to; i++) bits += Math.floor(zigzag(residual[i]) / 2 ** k)
+    if (bits < best.bits) best = { parameter: k, bits }
+  }
+  return best
+}
+
+// 选择残差分区方式：分区数为 2 的幂，块长需能整除且第一个分区要长于预测阶数
+function chooseRicePartitions(residual: Int32Array, blockSize: number, order: number): RiceChoice {
+  let best: RiceChoice = { partitionOrder: 0, parameters: [], bits: Infinity }
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = 1 << partitionOrder
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break
+
+    const partitionSize = blockSize / partitions
+    const parameters: number[] = []
+    let bits = 6 // 编码方式 2 位 + 分区阶数 4 位
+    let offset = 0
+    for (let p = 0; p < partitions; p++) {
+      const end = (p + 1) * partitionSize - order
+      const choice = bestRiceParameter(residual, offset, end)
+      parameters.push(choice.parameter)
+      bits += choice.bits
+      offset = end
+    }
+    if (bits < best.bits) best = { partitionOrder, parameters, bits }
+  }
+  return best
+}
+
+function writeFrame(writer: BitWriter, samples: Int32Array, frameNumber: number) {
+  const frameStart = writer.byteLength
+  const blockSize = samples.length
+
+  // 帧头
+  writer.write(0b11111111111110, 14) // 同步码
+  writer.write(0, 1) // 保留
+  writer.write(0, 1) // 固定块长
+  writer.write(0b0111, 4) // 块长见帧头末尾 16 位
+  writer.write(0b0000, 4) // 采样率见 STREAMINFO
+  writer.write(0b0000, 4) // 单声道
+  writer.write(0b100, 3) // 16-bit
+  writer.write(0, 1) // 保留
+  writeUtf8Number(writer, frameNumber)
+  writer.write(blockSize - 1, 16)
+  writer.write(crc8(writer.bytes(), frameStart, writer.byteLength), 8)
+
+  // 子帧：全部相同时用常量，否则选编码后最短的固定预测阶数，都不划算时原样存储
+  const isConstant = samples.every((s) => s === samples[0])
+  if (isConstant) {
+    writer.write(0, 1)
+    writer.write(0b000000, 6)
+    writer.write(0, 1)
+    writer.writeSigned(samples[0], BITS_PER_SAMPLE)
+  } else {
+    let bestOrder = -1
+    let bestChoice: RiceChoice | null = null
+    let bestResidual: Int32Array | null = null
+    let bestBits = blockSize * BITS_PER_SAMPLE // 原样存储的位数
+    for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+      const residual = fixedResidual(samples, order)
+      const choice = chooseRicePartitions(residual, blockSize, order)
+      const bits = order * BITS_PER_SAMPLE + choice.bits
+      if (bits < bestBits) {
+        bestBits = bits
+        bestOrder = order
+        bestChoice = choice
+        bestResidual = residual
+      }
+    }
+
+    if (bestChoice && bestResidual) {
+      writer.write(0, 1)
+      writer.write(0b001000 | bestOrder, 6)
+      writer.write(0, 1)
+      for (let i = 0; i < bestOrder; i++) {
+        writer.writeSigned(samples[i], BITS_PER_SAMPLE)
+      }
+      writer.write(0b00, 2) // 4-bit Rice 参数
+      writer.write(bestChoice.partitionOrder, 4)
+      const partitionSize = blockSize >> bestChoice.partitionOrder
+      let offset = 0
+      bestChoice.parameters.forEach((k, p) => {
+        writer.write(k, 4)
+        const end = (p + 1) * partitionSize - bestOrder
+        const divisor = 2 ** k
+        for (let i = offset; i < end; i++) {
+          const value = zigzag(bestResidual[i])
+          writer.writeUnary(Math.floor(value / divisor))
+          if (k > 0) writer.write(value % divisor, k)
+        }
+        offset = end
+      })
+    } else {
+      writer.write(0, 1)
+      writer.write(0b000001, 6)
+      writer.write(0, 1)
+      for (const sample of samples) {
+        writer.writeSigned(sample, BITS_PER_SAMPLE)
+      }
+    }
+  }
+
+  // 帧尾
+  writer.align()
+  writer.write(crc16(writer.bytes().subarray(frameStart)), 16)
+}
+
+// 将 PCM Float32 数据编码为 FLAC Blob
+export function encodeFLAC(samples: Float32Array, sampleRate: number): Blob {
+  const pcm = new Int32Array(samples.length)
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]))
+    pcm[i] = Math.round(s < 0 ? s * 0x8000 : s * 0x7FFF)
+  }
+
+  const writer = new BitWriter()
+  writer.write(0x664C, 16) // "fL"
+  writer.write(0x6143, 16) // "aC"
+
+  // STREAMINFO（唯一且最后一个元数据块）
+  writer.write(1, 1)
+  writer.write(0, 7)
+  writer.write(34, 24)
+  const blockSize = Math.min(BLOCK_SIZE, Math.max(16, pcm.length))
+  writer.write(blockSize, 16) // 最小块长
+  writer.write(blockSize, 16) // 最大块长
+  writer.write(0, 24) // 最小帧长（未知）
+  writer.write(0, 24) // 最大帧长（未知）
+  writer.write(sampleRate, 20)
+  writer.write(0, 3) // 声道数 - 1
+  writer.write(BITS_PER_SAMPLE - 1, 5)
+  writer.write(Math.floor(pcm.length / 2 ** 32), 4) // 总采样数（36 位）
+  writer.write(Math.floor(pcm.length / 2 ** 16) & 0xFFFF, 16)
+  writer.write(pcm.length & 0xFFFF, 16)
+  for (let i = 0; i < 16; i++) writer.write(0, 8) // MD5（未计算）
+
+  for (let offset = 0, frame = 0; offset < pcm.length; offset += BLOCK_SIZE, frame++) {
+    writeFrame(writer, pcm.subarray(offset, offset + BLOCK_SIZE), frame)
+  }
+
+  return new Blob([writer.bytes()], { type: 'audio/flac' })
+}
+
+export const flacEncoder: SegmentEncoder = {
+  format: 'flac',
+  label: 'FLAC（无损压缩）',
+  mimeType: 'audio/flac',
+  extension: 'flac',
+  isSupported: () => Promise.resolve(true),
+  encode: (samples, sampleRate) => Promise.resolve(encodeFLAC(samples, sampleRate)),
+}
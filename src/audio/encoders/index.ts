@@ -0,0 +1,37 @@
+import { AudioFormat, SegmentEncoder } from './types'
+import { wavEncoder } from './wav'
+import { flacEncoder } from './flac'
+import { opusEncoder } from './opus'
+
+export type { AudioFormat, SegmentEncoder } from './types'
+export { encodeWAV } from './wav'
+export { encodeFLAC } from './flac'
+export { encodeOggOpus } from './opus'
+
+export const DEFAULT_AUDIO_FORMAT: AudioFormat = 'wav'
+
+const ENCODERS: Record<AudioFormat, SegmentEncoder> = {
+  wav: wavEncoder,
+  flac: flacEncoder,
+  ogg: opusEncoder,
+}
+
+export function getEncoder(format: AudioFormat): SegmentEncoder {
+  return ENCODERS[format]
+}
+
+/**
+ * 当前浏览器可用的编码器（按列表顺序：WAV、FLAC、Opus）
+ */
+export async function getSupportedEncoders(): Promise<SegmentEncoder[]> {
+  const encoders = Object.values(ENCODERS)
+  const supported = await Promise.all(encoders.map((encoder) => encoder.isSupported()))
+  return encoders.filter((_, index) => supported[index])
+}
+
+/**
+ * 上传文件名（后端按扩展名和 audio_format 解码）
+ */
+export function getAudioFilename(format: AudioFormat): string {
+  return `audio.${ENCODERS[format].extension}`
+}
@@ -0,0 +1,204 @@
+import { SegmentEncoder } from './types'
+
+// Opus 编码（WebCodecs AudioEncoder），封装为 Ogg 文件（RFC 7845）
+
+const BITRATE = 24000
+const OPUS_GRANULE_RATE = 48000 // Ogg Opus 的时间刻度固定为 48kHz
+const DEFAULT_PRE_SKIP = 312 // 编码器未提供 OpusHead 时按 libopus 的前置延迟（48kHz 采样点）
+const PACKETS_PER_PAGE = 50
+const VENDOR = 'medi-bridge'
+
+function opusConfig(sampleRate: number): AudioEncoderConfig {
+  return { codec: 'opus', sampleRate, numberOfChannels: 1, bitrate: BITRATE }
+}
+
+// Ogg 使用的 CRC-32（多项式 0x04C11DB7，不反转）
+let crcTable: Uint32Array | null = null
+
+function oggCrc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let i = 0; i < 256; i++) {
+      let r = i << 24
+      for (let bit = 0; bit < 8; bit++) {
+        r = r & 0x80000000 ? (r << 1) ^ 0x04C11DB7 : r << 1
+      }
+      crcTable[i] = r >>> 0
+    }
+  }
+  let crc = 0
+  for (const byte of data) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xFF]) >>> 0
+  }
+  return crc
+}
+
+interface OggPageOptions {
+  packets: Uint8Array[]
+  granulePosition: number
+  serial: number
+  sequence: number
+  flags: number // 0x02 首页，0x04 末页
+}
+
+function buildOggPage({ packets, granulePosition, serial, sequence, flags }: OggPageOptions): Uint8Array {
+  // 段表：每个包拆为若干 255 与一个余数（可为 0）
+  const lacing: number[] = []
+  for (const packet of packets) {
+    for (let remaining = packet.length; ; remaining -= 255) {
+      lacing.push(Math.min(remaining, 255))
+      if (remaining < 255) break
+    }
+  }
+
+  const bodyLength = packets.reduce((sum, packet) => sum + packet.length, 0)
+  const page = new Uint8Array(27 + lacing.length + bodyLength)
+  const view = new DataView(page.buffer)
+  page.set([0x4F, 0x67, 0x67, 0x53]) // "OggS"
+  view.setUint8(4, 0) // 版本
+  view.setUint8(5, flags)
+  view.setUint32(6, granulePosition % 2 ** 32, true)
+  view.setUint32(10, Math.floor(granulePosition / 2 ** 32), true)
+  view.setUint32(14, serial, true)
+  view.setUint32(18, sequence, true)
+  view.setUint8(26, lacing.length)
+  page.set(lacing, 27)
+
+  let offset = 27 + lacing.length
+  for (const packet of packets) {
+    page.set(packet, offset)
+    offset += packet.length
+  }
+  view.setUint32(22, oggCrc32(page), true)
+  return page
+}
+
+function opusHead(sampleRate: number, preSkip: number): Uint8Array {
+  const head = new Uint8Array(19)
+  const view = new DataView(head.buffer)
+  head.set(new TextEncoder().encode('OpusHead'))
+  view.setUint8(8, 1) // 版本
+  view.setUint8(9, 1) // 声道数
+  view.setUint16(10, preSkip, true)
+  view.setUint32(12, sampleRate, true) // 原始采样率（仅供参考）
+  view.setInt16(16, 0, true) // 输出增益
+  view.setUint8(18, 0) // 声道映射方式
+  return head
+}
+
+function opusTags(): Uint8Array {
+  const vendor = new TextEncoder().encode(VENDOR)
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4)
+  const view = new DataView(tags.buffer)
+  tags.set(new TextEncoder().encode('OpusTags'))
+  view.setUint32(8, vendor.length, true)
+  tags.set(vendor, 12)
+  view.setUint32(12 + vendor.length, 0, true) // 用户注释数
+  return tags
+}
+
+// 从编码器给出的 OpusHead（decoderConfig.description）读取前置延迟，不同实现的延迟不一定相同
+function readPreSkip(description: AllowSharedBufferSource | undefined): number | undefined {
+  if (!description) return undefined
+  const head = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description)
+  if (head.length < 19 || new TextDecoder().decode(head.subarray(0, 8)) !== 'OpusHead') return undefined
+  return new DataView(head.buffer, head.byteOffset, head.byteLength).getUint16(10, true)
+}
+
+interface EncodedOpus {
+  packets: { data: Uint8Array; duration: number }[] // 每包附带时长，单位 48kHz 采样点
+  preSkip: number
+}
+
+// 编码得到 Opus 数据包
+async function encodePackets(samples: Float32Array, sampleRate: number): Promise<EncodedOpus> {
+  const packets: EncodedOpus['packets'] = []
+  const header: { preSkip?: number } = {}
+  const failure: { error?: Error } = {}
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      header.preSkip ??= readPreSkip(metadata.decoderConfig?.description)
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      const duration = Math.round((chunk.duration ?? 20000) * OPUS_GRANULE_RATE / 1_000_000)
+      packets.push({ data, duration })
+    },
+    error: (error) => {
+      failure.error = error
+    },
+  })
+
+  try {
+    encoder.configure(opusConfig(sampleRate))
+    const audioData = new AudioData({
+      format: 'f32',
+      sampleRate,
+      numberOfFrames: samples.length,
+      numberOfChannels: 1,
+      timestamp: 0,
+      data: samples,
+    })
+    encoder.encode(audioData)
+    audioData.close()
+    await encoder.flush()
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  if (failure.error) throw failure.error
+  return { packets, preSkip: header.preSkip ?? DEFAULT_PRE_SKIP }
+}
+
+// 将 PCM Float32 数据编码为 Ogg Opus Blob
+export async function encodeOggOpus(samples: Float32Array, sampleRate: number): Promise<Blob> {
+  const { packets, preSkip } = await encodePackets(samples, sampleRate)
+  const serial = Math.floor(Math.random() * 2 ** 32)
+  // 末页的 granule 位置决定解码后裁掉多余的尾部
+  const totalGranules = preSkip + Math.round(samples.length * OPUS_GRANULE_RATE / sampleRate)
+
+  const pages: Uint8Array[] = [
+    buildOggPage({ packets: [opusHead(sampleRate, preSkip)], granulePosition: 0, serial, sequence: 0, flags: 0x02 }),
+    buildOggPage({ packets: [opusTags()], granulePosition: 0, serial, sequence: 1, flags: 0 }),
+  ]
+
+  let granulePosition = 0
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const pagePackets = packets.slice(i, i + PACKETS_PER_PAGE)
+    const isLast = i + PACKETS_PER_PAGE >= packets.length
+    granulePosition += pagePackets.reduce((sum, packet) => sum + packet.duration, 0)
+    pages.push(buildOggPage({
+      packets: pagePackets.map((packet) => packet.data),
+      granulePosition: isLast ? Math.min(granulePosition, totalGranules) : granulePosition,
+      serial,
+      sequence: pages.length,
+      flags: isLast ? 0x04 : 0,
+    }))
+  }
+  // 输入过短时编码器可能不输出任何数据包，仍需一个带结束标志的空页，Ogg 流才完整
+  if (packets.length === 0) {
+    pages.push(buildOggPage({ packets: [], granulePosition: 0, serial, sequence: pages.length, flags: 0x04 }))
+  }
+
+  return new Blob(pages, { type: 'audio/ogg; codecs=opus' })
+}
+
+export const opusEncoder: SegmentEncoder = {
+  format: 'ogg',
+  label: 'Opus（有损压缩，最省流量）',
+  mimeType: 'audio/ogg; codecs=opus',
+  extension: 'ogg',
+  isSupported: async () => {
+    if (typeof AudioEncoder === 'undefined') return false
+    try {
+      // 录音片段统一为 16kHz
+      const support = await AudioEncoder.isConfigSupported(opusConfig(16000))
+      return support.supported === true
+    } catch {
+      return false
+    }
+  },
+  encode: encodeOggOpus,
+}
@@ -0,0 +1,12 @@
+// 上传音频格式（对应上传接口的 audio_format 字段）
+export type AudioFormat = 'wav' | 'flac' | 'ogg'
+
+// 语音片段编码器：将单声道 PCM 编码为可上传的音频文件
+export interface SegmentEncoder {
+  format: AudioFormat
+  label: string // 界面显示名称
+  mimeType: string
+  extension: string
+  isSupported: () => Promise<boolean>
+  encode: (samples: Float32Array, sampleRate: number) => Promise<Blob>
+}
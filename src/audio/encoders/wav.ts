@@ -0,0 +1,52 @@
+import { SegmentEncoder } from './types'
+
+const CHANNELS = 1
+const BITS_PER_SAMPLE = 16
+
+// 将 PCM Float32 数据编码为 WAV Blob
+export function encodeWAV(samples: Float32Array, sampleRate: number): Blob {
+  const buffer = new ArrayBuffer(44 + samples.length * 2)
+  const view = new DataView(buffer)
+
+  // 写入 WAV 头
+  writeString(view, 0, 'RIFF')
+  view.setUint32(4, 36 + samples.length * 2, true)
+  writeString(view, 8, 'WAVE')
+  writeString(view, 12, 'fmt ')
+  view.setUint32(16, 16, true) // fmt chunk size
+  view.setUint16(20, 1, true) // audio format (PCM)
+  view.setUint16(22, CHANNELS, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * CHANNELS * BITS_PER_SAMPLE / 8, true) // byte rate
+  view.setUint16(32, CHANNELS * BITS_PER_SAMPLE / 8, true) // block align
+  view.setUint16(34, BITS_PER_SAMPLE, true)
+  writeString(view, 36, 'data')
+  view.setUint32(40, samples.length * 2, true)
+
+  // 写入 PCM 数据
+  floatTo16BitPCM(view, 44, samples)
+
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+function writeString(view: DataView, offset: number, str: string) {
+  for (let i = 0; i < str.length; i++) {
+    view.setUint8(offset + i, str.charCodeAt(i))
+  }
+}
+
+function floatTo16BitPCM(view: DataView, offset: number, input: Float32Array) {
+  for (let i = 0; i < input.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, input[i]))
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7FFF, true)
+  }
+}
+
+export const wavEncoder: SegmentEncoder = {
+  format: 'wav',
+  label: 'WAV（无压缩）',
+  mimeType: 'audio/wav',
+  extension: 'wav',
+  isSupported: () => Promise.resolve(true),
+  encode: (samples, sampleRate) => Promise.resolve(encodeWAV(samples, sampleRate)),
+}
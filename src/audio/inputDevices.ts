@@ -0,0 +1,19 @@
+// 麦克风设备
+
+export interface AudioInputDevice {
+  deviceId: string
+  label: string
+}
+
+/**
+ * 列出可用的麦克风（未授权前浏览器不提供设备名称，用序号代替）
+ */
+export async function listAudioInputs(): Promise<AudioInputDevice[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices()
+  return devices
+    .filter((device) => device.kind === 'audioinput' && device.deviceId !== '' && device.deviceId !== 'default')
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `麦克风 ${(index + 1).toString()}`,
+    }))
+}
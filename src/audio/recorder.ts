@@ -0,0 +1,820 @@
+import { VoiceActivityDetector, VadConfig, VadEvent } from './vad'
+import { SpeechSegmenter, SpeechSegment } from './segmenter'
+import { Resampler, ResamplerConfig } from './resampler'
+import { AudioFormat, DEFAULT_AUDIO_FORMAT, encodeWAV, getEncoder, SegmentEncoder } from './encoders'
+import { downmixStereo, Speaker, SPEAKER_LABELS, SpeakerMode, SpeakerTracker } from './speaker'
+import { DEFAULT_SEGMENTATION, SEGMENT_SAMPLE_RATE, SegmentationOptions } from './audioFile'
+import { listAudioInputs } from './inputDevices'
+import { decodeWAV, WavData } from './wavReader'
+
+// 录音引擎：麦克风采集 → 重采样 → VAD → 分段 → 编码，不依赖 React，可直接使用和测试。
+// 状态机：idle → starting → recording ⇄ paused → stopping → idle（启动失败时 starting → idle）
+
+export type RecorderState = 'idle' | 'starting' | 'recording' | 'paused' | 'stopping'
+
+const TRANSITIONS: Record<RecorderState, RecorderState[]> = {
+  idle: ['starting'],
+  starting: ['recording', 'idle'],
+  recording: ['paused', 'stopping'],
+  paused: ['recording', 'stopping'],
+  stopping: ['idle'],
+}
+
+// 片段信息
+export interface SegmentInfo {
+  audioFormat: AudioFormat // 片段实际使用的编码格式（编码失败时会回退为 WAV）
+  speaker: Speaker
+  // 是否由超长语音强制切分而来（用于拼接转录文本）
+  continuesPrevious: boolean
+  continuesNext: boolean
+}
+
+// 录音事件
+export interface AudioRecorderEventMap {
+  statechange: { state: RecorderState; previous: RecorderState }
+  speechstart: { sample: number }
+  speechend: { duration: number } // 强制切分时说话仍在继续，不触发
+  segment: { blob: Blob; blobSize: number; duration: number; info: SegmentInfo } // 片段已编码，按说话顺序触发
+  discard: { duration: number } // 检测到说话但片段过短被丢弃
+  pcm: { samples: Float32Array } // 每个 PCM 数据块（用于流式识别）
+  calibrated: { threshold: number; noiseFloor: number }
+  threshold: { threshold: number; noiseFloor: number }
+  inputchange: { deviceId: string; label: string } // 开始录音或切换麦克风后实际使用的设备
+  error: { error: Error }
+}
+
+export type AudioRecorderListener<K extends keyof AudioRecorderEventMap> = (event: AudioRecorderEventMap[K]) => void
+
+export interface AudioRecorderConfig extends SegmentationOptions {
+  calibrationDuration?: number // 校准环境噪声的时长 (ms)，仅在开始时要求校准才生效，默认 3000
+}
+
+export interface StartRecordingOptions {
+  calibrate?: boolean // 开始分段前先测量环境噪声并据此设定阈值
+  audioFormat?: AudioFormat // 本次录音片段的编码格式
+  speakerMode?: SpeakerMode // 说话人识别方式，默认按键标记
+  deviceId?: string | null // 麦克风，默认系统默认设备
+}
+
+export interface ReplayOptions extends Omit<StartRecordingOptions, 'deviceId'> {
+  chunkSize?: number // 每次送入的输入采样帧数，默认与 ScriptProcessorNode 相同（4096）
+  onProgress?: (processed: number, total: number) => void // 按输入采样帧计
+}
+
+// 回放报告中的语音片段（时间均为 ms，按 SAMPLE_RATE 下的采样点换算）
+export interface ReplaySegment {
+  index: number
+  startSample: number
+  endSample: number
+  start: number
+  end: number
+  duration: number
+  speaker: Speaker
+  continuesPrevious: boolean
+  continuesNext: boolean
+}
+
+// 回放报告：与片段内容无关，只记录边界和阈值变化，相同输入和参数得到相同结果，可直接作为回归样本
+export interface ReplayReport {
+  source: { sampleRate: number; channels: number; duration: number }
+  config: Required<AudioRecorderConfig>
+  calibrate: boolean
+  speakerMode: SpeakerMode
+  segments: ReplaySegment[]
+  discarded: { at: number; duration: number }[] // 过短被丢弃的片段（at 为丢弃时的位置）
+  speech: { type: 'start' | 'end'; at: number }[] // VAD 检测到的说话起止位置
+  thresholds: { at: number; threshold: number; noiseFloor: number; calibrated: boolean }[]
+  completed: boolean // 回放途中被停止时为 false
+}
+
+// 片段采样率：录音以设备原生采样率采集，重采样到 SAMPLE_RATE 后再分段编码
+const SAMPLE_RATE = SEGMENT_SAMPLE_RATE
+// 未说话时保留的说话人依据时长 (ms)，需覆盖预录和起始确认延迟
+const SPEAKER_EVIDENCE_RETAIN = 5000
+// 回放时每处理多少个数据块让出一次主线程
+const REPLAY_YIELD_INTERVAL = 16
+// 回放暂停时检查恢复的间隔 (ms)
+const REPLAY_PAUSE_POLL = 50
+
+function toMs(sample: number): number {
+  return sample / SAMPLE_RATE * 1000
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// 音频线程参数
+interface ProcessorOptions {
+  resampler: ResamplerConfig
+  vad: VadConfig
+  dualChannel: boolean // 双声道输入：混为单声道，并回传各声道能量用于区分说话人
+}
+
+// 音频线程发送的消息（采样点均为重采样后 SAMPLE_RATE 下的数据和位置）
+interface AudioMessage {
+  type: 'audio'
+  samples: Float32Array
+  start: number // 第一个采样点的位置
+  events: VadEvent[]
+  level: number // 最近一帧的电平
+  channelEnergy: [number, number] | null // 双声道时患者、医生声道的能量
+}
+
+// AudioWorklet 处理器：在音频线程中重采样并运行 VAD，将 PCM 数据与说话边界一起发回主线程
+const createWorkletCode = () => `
+  const Resampler = ${Resampler.toString()}
+  const VoiceActivityDetector = ${VoiceActivityDetector.toString()}
+  const downmixStereo = ${downmixStereo.toString()}
+
+  class PCMProcessor extends AudioWorkletProcessor {
+    constructor(options) {
+      super()
+      this.resampler = new Resampler(options.processorOptions.resampler)
+      this.vad = new VoiceActivityDetector(options.processorOptions.vad)
+      this.dualChannel = options.processorOptions.dualChannel
+      this.pendingEnergy = null // 尚未随音频发出的声道能量（重采样有延迟）
+      this.paused = false
+      this.port.onmessage = (event) => {
+        if (event.data.type === 'pause') this.paused = true
+        if (event.data.type === 'resume') this.paused = false
+      }
+    }
+
+    process(inputs) {
+      const input = inputs[0]
+      if (input.length > 0 && !this.paused) {
+        let mono = input[0]
+        if (this.dualChannel && input.length > 1) {
+          const mixed = downmixStereo(input[0], input[1])
+          mono = mixed.samples
+          const pending = this.pendingEnergy || [0, 0]
+          this.pendingEnergy = [pending[0] + mixed.energy[0], pending[1] + mixed.energy[1]]
+        }
+        const samples = this.resampler.process(mono)
+        if (samples.length === 0) return true
+        const start = this.vad.position
+        const events = this.vad.process(samples)
+        const channelEnergy = this.pendingEnergy
+        this.pendingEnergy = null
+        this.port.postMessage({ type: 'audio', samples, start, events, level: this.vad.level, channelEnergy }, [samples.buffer])
+      }
+      return true
+    }
+  }
+  registerProcessor('pcm-processor', PCMProcessor)
+`
+
+/**
+ * 录音引擎
+ * 开始录音后持续检测说话并切出语音片段，片段编码完成后按说话顺序触发 segment 事件。
+ * 录音中可以暂停、标记说话人、切换麦克风；拔出麦克风时自动切换到可用设备，正在录制的片段不中断。
+ */
+export class AudioRecorder {
+  private config: Required<AudioRecorderConfig>
+  private currentState: RecorderState = 'idle'
+  private readonly listeners = new Map<keyof AudioRecorderEventMap, Set<AudioRecorderListener<keyof AudioRecorderEventMap>>>()
+
+  private stream: MediaStream | null = null
+  private audioContext: AudioContext | null = null
+  private analyserNode: AnalyserNode | null = null
+  private source: MediaStreamAudioSourceNode | null = null
+  private processor: AudioWorkletNode | ScriptProcessorNode | null = null
+  private segmenter: SpeechSegmenter | null = null
+  private encoder: SegmentEncoder = getEncoder(DEFAULT_AUDIO_FORMAT)
+  private encodeQueue: Promise<void> = Promise.resolve() // 片段按顺序编码提交
+  private readonly speakerTracker = new SpeakerTracker()
+  private speaker: Speaker = 'patient' // 按键标记的当前说话人
+  private dualChannel = false
+  private preferredDevice: string | null = null // 用户选择的麦克风，断开后重新接入时切回
+  private switchQueue: Promise<boolean> = Promise.resolve(true) // 切换麦克风按顺序执行
+  private startPromise: Promise<boolean> | null = null
+  private isWatchingDevices = false
+  private position = 0 // 已处理音频的终点（采样点）
+  private replayReport: ReplayReport | null = null // 回放中记录边界
+  private currentThreshold: number // 当前生效的阈值（校准/自适应后会变化）
+  private lastLevelLog = 0
+
+  constructor(config: AudioRecorderConfig = {}) {
+    this.config = { ...DEFAULT_SEGMENTATION, calibrationDuration: 3000, ...config }
+    this.currentThreshold = this.config.silenceThreshold
+  }
+
+  get state(): RecorderState {
+    return this.currentState
+  }
+
+  // 录音中（含暂停）
+  get isActive(): boolean {
+    return this.currentState === 'recording' || this.currentState === 'paused'
+  }
+
+  get analyser(): AnalyserNode | null {
+    return this.analyserNode
+  }
+
+  /**
+   * 更新分段参数，下次开始录音时生效
+   */
+  configure(config: AudioRecorderConfig) {
+    this.config = { ...this.config, ...config }
+  }
+
+  /**
+   * 订阅事件，返回取消订阅的函数
+   */
+  on<K extends keyof AudioRecorderEventMap>(type: K, listener: AudioRecorderListener<K>): () => void {
+    let set = this.listeners.get(type)
+    if (!set) {
+      set = new Set()
+      this.listeners.set(type, set)
+    }
+    set.add(listener as AudioRecorderListener<keyof AudioRecorderEventMap>)
+    return () => {
+      this.off(type, listener)
+    }
+  }
+
+  off<K extends keyof AudioRecorderEventMap>(type: K, listener: AudioRecorderListener<K>) {
+    this.listeners.get(type)?.delete(listener as AudioRecorderListener<keyof AudioRecorderEventMap>)
+  }
+
+  private emit<K extends keyof AudioRecorderEventMap>(type: K, event: AudioRecorderEventMap[K]) {
+    const set = this.listeners.get(type)
+    if (!set) return
+    for (const listener of set) {
+      (listener as AudioRecorderListener<K>)(event)
+    }
+  }
+
+  private transition(state: RecorderState) {
+    const previous = this.currentState
+    if (!TRANSITIONS[previous].includes(state)) {
+      throw new Error(`录音状态不能从 ${previous} 切换到 ${state}`)
+    }
+    this.currentState = state
+    this.emit('statechange', { state, previous })
+  }
+
+  /**
+   * 开始录音，成功返回 true；失败时触发 error 事件并回到 idle
+   */
+  start(options: StartRecordingOptions = {}): Promise<boolean> {
+    if (this.currentState !== 'idle') {
+      console.warn(`[录音] 当前状态为 ${this.currentState}，无法开始录音`)
+      return Promise.resolve(false)
+    }
+    this.transition('starting')
+    this.startPromise = this.open(options).finally(() => {
+      this.startPromise = null
+    })
+    return this.startPromise
+  }
+
+  private async open({
+    calibrate = false,
+    audioFormat = DEFAULT_AUDIO_FORMAT,
+    speakerMode = 'push-to-talk',
+    deviceId = null,
+  }: StartRecordingOptions): Promise<boolean> {
+    const config = this.config
+    try {
+      this.encoder = getEncoder(audioFormat)
+      this.dualChannel = speakerMode === 'dual-channel'
+      this.preferredDevice = deviceId
+      console.log('[录音] 正在请求麦克风权限...')
+      const stream = await this.openInputStream(deviceId)
+
+      console.log('[录音] ✓ 麦克风权限获取成功')
+      if (this.dualChannel && (stream.getAudioTracks()[0]?.getSettings().channelCount ?? 1) < 2) {
+        console.warn('[录音] 麦克风不支持双声道，改为按键标记说话人')
+      }
+      this.attachStream(stream)
+
+      // 使用设备原生采样率，部分浏览器不支持或会忽略指定的采样率
+      const audioContext = new AudioContext()
+      this.audioContext = audioContext
+      console.log(`[录音] 采集采样率: ${audioContext.sampleRate}Hz，重采样到 ${SAMPLE_RATE}Hz`)
+
+      const analyser = audioContext.createAnalyser()
+      analyser.fftSize = 256
+      this.analyserNode = analyser
+
+      const source = audioContext.createMediaStreamSource(stream)
+      this.source = source
+      source.connect(analyser)
+
+      // 创建音频处理器
+      this.processor = await this.createProcessor(audioContext, source, this.createPipeline(calibrate, audioContext.sampleRate))
+
+      navigator.mediaDevices.addEventListener('devicechange', this.handleDeviceChange)
+      this.isWatchingDevices = true
+      this.transition('recording')
+
+      if (calibrate) {
+        console.log(`[录音] 正在校准环境噪声 (${config.calibrationDuration}ms)，请保持安静...`)
+      }
+      console.log(`[录音] ✓ 录音已启动 (${this.encoder.label})`)
+      return true
+    } catch (error) {
+      console.error('[录音] ✗ 启动失败:', error)
+      this.release()
+      this.transition('idle')
+      this.emit('error', { error: error as Error })
+      return false
+    }
+  }
+
+  // 重置说话人和分段状态，创建分段器，返回音频处理（重采样、VAD）的参数
+  private createPipeline(calibrate: boolean, inputRate: number): ProcessorOptions {
+    const config = this.config
+    this.speakerTracker.reset()
+    this.speaker = 'patient'
+    this.position = 0
+    this.currentThreshold = config.silenceThreshold
+    this.segmenter = new SpeechSegmenter({
+      sampleRate: SAMPLE_RATE,
+      minSpeechDuration: config.minSpeechDuration,
+      // 环形缓冲区需覆盖起始确认延迟和预录时长，说话开始位置会回溯到确认之前
+      retainDuration: config.speechOnsetDuration + config.preRollDuration + 500,
+      preRollDuration: config.preRollDuration,
+      trailingSilenceDuration: config.trailingSilenceDuration,
+      maxSegmentDuration: config.maxSegmentDuration,
+      onSpeechStart: (sample) => {
+        console.log(`[录音] ▶ 检测到开始说话 (采样点 ${sample})`)
+        this.emit('speechstart', { sample })
+      },
+      onSegment: (segment) => {
+        this.submitSegment(segment)
+      },
+      onDiscard: (duration) => {
+        console.log(`[录音] ✗ 语音片段太短 (${duration.toFixed(0)}ms < ${config.minSpeechDuration}ms)，已丢弃`)
+        this.replayReport?.discarded.push({ at: toMs(this.position), duration })
+        this.emit('discard', { duration })
+      },
+    })
+
+    return {
+      resampler: { inputRate, outputRate: SAMPLE_RATE },
+      dualChannel: this.dualChannel,
+      vad: {
+        sampleRate: SAMPLE_RATE,
+        threshold: config.silenceThreshold,
+        onsetDuration: config.speechOnsetDuration,
+        hangoverDuration: config.silenceDuration,
+        calibrationDuration: calibrate ? config.calibrationDuration : 0,
+        adaptive: config.adaptiveThreshold,
+      },
+    }
+  }
+
+  /**
+   * 回放 WAV 文件：代替麦克风将音频送入与录音相同的重采样、VAD 和分段流程，不按实时节奏等待
+   * 回放期间照常触发 segment 等事件，可以暂停或停止；结束后返回片段边界报告
+   */
+  async replay(file: Blob | ArrayBuffer, {
+    calibrate = false,
+    audioFormat = DEFAULT_AUDIO_FORMAT,
+    speakerMode = 'push-to-talk',
+    chunkSize = 4096,
+    onProgress,
+  }: ReplayOptions = {}): Promise<ReplayReport> {
+    if (this.currentState !== 'idle') {
+      throw new Error(`当前状态为 ${this.currentState}，无法回放`)
+    }
+    this.transition('starting')
+
+    let wav: WavData
+    try {
+      wav = decodeWAV(file instanceof Blob ? await file.arrayBuffer() : file)
+    } catch (error) {
+      this.transition('idle')
+      this.emit('error', { error: error as Error })
+      throw error
+    }
+
+    this.encoder = getEncoder(audioFormat)
+    this.dualChannel = speakerMode === 'dual-channel' && wav.channels.length > 1
+    const processorOptions = this.createPipeline(calibrate, wav.sampleRate)
+    const resampler = new Resampler(processorOptions.resampler)
+    const vad = new VoiceActivityDetector(processorOptions.vad)
+    const report: ReplayReport = {
+      source: { sampleRate: wav.sampleRate, channels: wav.channels.length, duration: wav.duration },
+      config: { ...this.config },
+      calibrate,
+      speakerMode,
+      segments: [],
+      discarded: [],
+      speech: [],
+      thresholds: [],
+      completed: false,
+    }
+    this.replayReport = report
+    this.transition('recording')
+    console.log(`[回放] ▶ 开始回放: ${(wav.duration / 1000).toFixed(1)}s, ${wav.channels.length} 声道, ${wav.sampleRate}Hz`)
+
+    const [first, second] = wav.channels
+    const total = first.length
+    const startedAt = Date.now()
+    let offset = 0
+    for (let chunk = 0; offset < total; offset += chunkSize, chunk++) {
+      // 循环中状态可能被 pause() / stop() 改变
+      while (this.state === 'paused') {
+        await delay(REPLAY_PAUSE_POLL)
+      }
+      if (this.state !== 'recording') break
+
+      const end = Math.min(offset + chunkSize, total)
+      this.feed(resampler, vad, first.subarray(offset, end), this.dualChannel ? second.subarray(offset, end) : null)
+
+      if (chunk % REPLAY_YIELD_INTERVAL === REPLAY_YIELD_INTERVAL - 1) {
+        onProgress?.(end, total)
+        await delay(0)
+      }
+    }
+    report.completed = offset >= total
+
+    // 文件结束视为停止录音：仍在说话则以文件终点结束最后一段；途中被停止时等待其完成
+    if (this.isActive) {
+      await this.stop()
+    } else {
+      await this.encodeQueue
+    }
+    this.replayReport = null
+    onProgress?.(total, total)
+
+    const elapsed = Math.max(1, Date.now() - startedAt)
+    console.log(`[回放] ✓ 回放${report.completed ? '完成' : '已中止'}: ${report.segments.length} 个片段，${report.discarded.length} 个过短丢弃，耗时 ${elapsed}ms（${(wav.duration / elapsed).toFixed(1)} 倍速）`)
+    return report
+  }
+
+  /**
+   * 停止录音，最后一段编码提交后完成
+   */
+  async stop(): Promise<void> {
+    if (this.currentState === 'starting' && this.startPromise) {
+      await this.startPromise
+    }
+    if (!this.isActive) return
+
+    console.log('[录音] 正在停止录音...')
+    this.transition('stopping')
+
+    // 提交最后一段语音
+    this.segmenter?.flush()
+    this.release()
+
+    // 等待最后的片段编码提交
+    await this.encodeQueue
+    this.transition('idle')
+    console.log('[录音] ✓ 录音已停止')
+  }
+
+  pause() {
+    if (this.currentState !== 'recording') return
+    if (this.processor instanceof AudioWorkletNode) {
+      this.processor.port.postMessage({ type: 'pause' })
+    }
+    this.transition('paused')
+    console.log('[录音] ⏸ 录音已暂停')
+  }
+
+  resume() {
+    if (this.currentState !== 'paused') return
+    if (this.processor instanceof AudioWorkletNode) {
+      this.processor.port.postMessage({ type: 'resume' })
+    }
+    this.transition('recording')
+    console.log('[录音] ▶ 录音已恢复')
+  }
+
+  /**
+   * 按键标记当前说话人（push-to-talk 模式）
+   */
+  setSpeaker(speaker: Speaker) {
+    if (this.speaker === speaker) return
+    this.speaker = speaker
+    console.log(`[录音] 当前说话人: ${SPEAKER_LABELS[speaker]}`)
+  }
+
+  /**
+   * 录音中切换麦克风，当前片段不中断；未录音时只记录选择
+   */
+  switchInput(deviceId: string | null): Promise<boolean> {
+    this.preferredDevice = deviceId
+    return this.enqueueSwitch(deviceId, false)
+  }
+
+  /**
+   * 停止录音并移除全部事件监听
+   */
+  async dispose() {
+    await this.stop()
+    this.listeners.clear()
+  }
+
+  // 释放音频资源
+  private release() {
+    if (this.isWatchingDevices) {
+      navigator.mediaDevices.removeEventListener('devicechange', this.handleDeviceChange)
+      this.isWatchingDevices = false
+    }
+    this.segmenter = null
+
+    if (this.processor) {
+      if (this.processor instanceof AudioWorkletNode) {
+        this.processor.port.onmessage = null
+      }
+      this.processor.disconnect()
+      this.processor = null
+    }
+
+    if (this.source) {
+      this.source.disconnect()
+      this.source = null
+    }
+
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      void this.audioContext.close()
+    }
+    this.audioContext = null
+
+    if (this.stream) {
+      this.stream.getTracks().forEach((track) => {
+        track.stop()
+      })
+      this.stream = null
+    }
+
+    this.analyserNode = null
+  }
+
+  // 提交语音片段：编码可能是异步的，排队执行以保证提交顺序与说话顺序一致
+  private submitSegment(segment: SpeechSegment) {
+    const encoder = this.encoder
+    const duration = Math.round(segment.duration)
+    const speaker = this.speakerTracker.resolve(segment.startSample, segment.endSample)
+    this.replayReport?.segments.push({
+      index: this.replayReport.segments.length,
+      startSample: segment.startSample,
+      endSample: segment.endSample,
+      start: toMs(segment.startSample),
+      end: toMs(segment.endSample),
+      duration: segment.duration,
+      speaker,
+      continuesPrevious: segment.continuesPrevious,
+      continuesNext: segment.continuesNext,
+    })
+
+    // 强制切分时说话仍在继续
+    if (!segment.continuesNext) {
+      this.emit('speechend', { duration })
+    }
+
+    this.encodeQueue = this.encodeQueue.then(async () => {
+      let blob: Blob
+      let audioFormat = encoder.format
+      try {
+        blob = await encoder.encode(segment.samples, SAMPLE_RATE)
+      } catch (error) {
+        console.warn(`[录音] ${encoder.label} 编码失败，改用 WAV:`, error)
+        blob = encodeWAV(segment.samples, SAMPLE_RATE)
+        audioFormat = 'wav'
+      }
+
+      const blobSize = blob.size / 1024
+      console.log(`[录音] ✓ 提交语音片段: ${blobSize.toFixed(2)}KB (${audioFormat}), 时长: ${duration}ms (采样点 ${segment.startSample}-${segment.endSample})${segment.continuesNext ? '，超长强制切分' : ''}`)
+
+      this.emit('segment', {
+        blob,
+        blobSize,
+        duration,
+        info: {
+          audioFormat,
+          speaker,
+          continuesPrevious: segment.continuesPrevious,
+          continuesNext: segment.continuesNext,
+        },
+      })
+    }).catch((error: unknown) => {
+      console.error('[录音] ✗ 提交语音片段失败:', error)
+    })
+  }
+
+  // 处理音频线程发来的数据和 VAD 事件
+  private handleAudioMessage(message: AudioMessage) {
+    const segmenter = this.segmenter
+    if (!segmenter || this.currentState !== 'recording') return
+
+    // 记录说话人依据：双声道按各声道能量，否则按当前按键状态
+    const end = message.start + message.samples.length
+    this.position = end
+    if (message.channelEnergy) {
+      this.speakerTracker.add(message.start, end, message.channelEnergy[0], message.channelEnergy[1])
+    } else {
+      const isDoctor = this.speaker === 'doctor'
+      this.speakerTracker.add(message.start, end, isDoctor ? 0 : 1, isDoctor ? 1 : 0)
+    }
+
+    this.emit('pcm', { samples: message.samples })
+    segmenter.push(message.samples, message.start)
+    for (const event of message.events) {
+      switch (event.type) {
+        case 'calibrated':
+          this.currentThreshold = event.threshold
+          this.replayReport?.thresholds.push({ at: toMs(event.sample), threshold: event.threshold, noiseFloor: event.noiseFloor, calibrated: true })
+          console.log(`[录音] ✓ 环境噪声校准完成: 噪声 ${(event.noiseFloor * 100).toFixed(1)}%, 阈值 ${(event.threshold * 100).toFixed(1)}%`)
+          this.emit('calibrated', { threshold: event.threshold, noiseFloor: event.noiseFloor })
+          break
+        case 'threshold':
+          this.currentThreshold = event.threshold
+          this.replayReport?.thresholds.push({ at: toMs(event.sample), threshold: event.threshold, noiseFloor: event.noiseFloor, calibrated: false })
+          this.emit('threshold', { threshold: event.threshold, noiseFloor: event.noiseFloor })
+          break
+        default:
+          this.replayReport?.speech.push({ type: event.type === 'speech-start' ? 'start' : 'end', at: toMs(event.sample) })
+          segmenter.handleEvent(event)
+      }
+    }
+
+    // 未说话时只需保留可能被预录进下一片段的说话人依据
+    if (!segmenter.isSpeaking) {
+      this.speakerTracker.prune(end - SAMPLE_RATE * SPEAKER_EVIDENCE_RETAIN / 1000)
+    }
+
+    // 调试日志：每秒输出一次电平
+    if (import.meta.env.DEV) {
+      const now = Date.now()
+      if (now - this.lastLevelLog > 1000) {
+        const speechState = segmenter.isSpeaking ? '▶ 说话' : '静音'
+        console.log(`[音量] ${speechState} ${(message.level * 100).toFixed(1)}% (阈值: ${(this.currentThreshold * 100).toFixed(1)}%)`)
+        this.lastLevelLog = now
+      }
+    }
+  }
+
+  // 创建音频处理器：优先使用 AudioWorklet（内联定义），不可用时回退到 ScriptProcessorNode
+  private async createProcessor(
+    audioContext: AudioContext,
+    source: MediaStreamAudioSourceNode,
+    processorOptions: ProcessorOptions,
+  ): Promise<AudioWorkletNode | ScriptProcessorNode> {
+    const blob = new Blob([createWorkletCode()], { type: 'application/javascript' })
+    const workletUrl = URL.createObjectURL(blob)
+
+    try {
+      await audioContext.audioWorklet.addModule(workletUrl)
+      const workletNode = new AudioWorkletNode(audioContext, 'pcm-processor', { processorOptions })
+      workletNode.port.onmessage = (event: MessageEvent<AudioMessage>) => {
+        this.handleAudioMessage(event.data)
+      }
+
+      source.connect(workletNode)
+      workletNode.connect(audioContext.destination)
+
+      URL.revokeObjectURL(workletUrl)
+      return workletNode
+    } catch {
+      // 回退到 ScriptProcessorNode，VAD 在主线程运行
+      console.warn('[录音] AudioWorklet 不可用，使用 ScriptProcessorNode')
+      URL.revokeObjectURL(workletUrl)
+      const bufferSize = 4096
+      const scriptProcessor = audioContext.createScriptProcessor(bufferSize, processorOptions.dualChannel ? 2 : 1, 1)
+      const resampler = new Resampler(processorOptions.resampler)
+      const vad = new VoiceActivityDetector(processorOptions.vad)
+
+      scriptProcessor.onaudioprocess = (event) => {
+        if (this.currentState !== 'recording') return
+        const input = event.inputBuffer
+        const dual = processorOptions.dualChannel && input.numberOfChannels > 1
+        this.feed(resampler, vad, input.getChannelData(0), dual ? input.getChannelData(1) : null)
+      }
+
+      source.connect(scriptProcessor)
+      scriptProcessor.connect(audioContext.destination)
+
+      return scriptProcessor
+    }
+  }
+
+  // 在主线程重采样并运行 VAD（ScriptProcessorNode 与回放共用，与 AudioWorklet 中的处理相同）
+  private feed(resampler: Resampler, vad: VoiceActivityDetector, first: Float32Array, second: Float32Array | null) {
+    let mono = first
+    let channelEnergy: [number, number] | null = null
+    if (second) {
+      const mixed = downmixStereo(first, second)
+      mono = mixed.samples
+      channelEnergy = mixed.energy
+    }
+    const samples = resampler.process(mono)
+    if (samples.length === 0) return
+    const start = vad.position
+    const events = vad.process(samples)
+    this.handleAudioMessage({ type: 'audio', samples, start, events, level: vad.level, channelEnergy })
+  }
+
+  // 打开麦克风：指定的设备不可用时改用系统默认设备
+  // 双声道时关闭回声消除等处理，浏览器开启这些处理时通常会把输入混为单声道
+  private async openInputStream(deviceId: string | null): Promise<MediaStream> {
+    const constraints = {
+      channelCount: this.dualChannel ? 2 : 1,
+      echoCancellation: !this.dualChannel,
+      noiseSuppression: !this.dualChannel,
+      autoGainControl: !this.dualChannel,
+    }
+    if (deviceId) {
+      try {
+        return await navigator.mediaDevices.getUserMedia({ audio: { ...constraints, deviceId: { exact: deviceId } } })
+      } catch (error) {
+        const name = (error as DOMException).name
+        if (name !== 'OverconstrainedError' && name !== 'NotFoundError') throw error
+        console.warn('[录音] 所选麦克风不可用，改用系统默认设备')
+      }
+    }
+    return navigator.mediaDevices.getUserMedia({ audio: constraints })
+  }
+
+  // 记录当前使用的设备；设备被拔出时轨道结束，立即切换
+  private attachStream(stream: MediaStream) {
+    this.stream = stream
+    const track = stream.getAudioTracks()[0] as MediaStreamTrack | undefined
+    if (!track) return
+    track.addEventListener('ended', () => {
+      if (this.stream !== stream || !this.isActive) return
+      console.warn(`[录音] 麦克风已断开: ${track.label}`)
+      void this.enqueueSwitch(this.preferredDevice, true)
+    })
+    const deviceId = track.getSettings().deviceId ?? ''
+    console.log(`[录音] 使用麦克风: ${track.label || '默认设备'}`)
+    this.emit('inputchange', { deviceId, label: track.label })
+  }
+
+  private enqueueSwitch(deviceId: string | null, fallback: boolean): Promise<boolean> {
+    this.switchQueue = this.switchQueue.then(() => this.replaceSource(deviceId, fallback))
+    return this.switchQueue
+  }
+
+  // 替换音频源：新的源接入分析器和处理器后再断开旧的源，
+  // 处理器、重采样器、VAD 与分段器保持不变，正在录制的片段直接接续
+  private async replaceSource(deviceId: string | null, fallback: boolean): Promise<boolean> {
+    const audioContext = this.audioContext
+    if (!audioContext || !this.isActive) return false
+
+    let stream: MediaStream
+    try {
+      stream = await this.openInputStream(deviceId)
+    } catch (error) {
+      console.error('[录音] ✗ 切换麦克风失败:', error)
+      if (!fallback || !deviceId) return false
+      try {
+        stream = await this.openInputStream(null)
+      } catch {
+        return false
+      }
+    }
+    // 等待期间录音已停止（停止时会清空 audioContext）
+    if (this.audioContext !== audioContext) {
+      stream.getTracks().forEach((track) => {
+        track.stop()
+      })
+      return false
+    }
+
+    const source = audioContext.createMediaStreamSource(stream)
+    if (this.analyserNode) source.connect(this.analyserNode)
+    if (this.processor) source.connect(this.processor)
+
+    const previousSource = this.source
+    const previousStream = this.stream
+    this.source = source
+    this.attachStream(stream)
+    previousSource?.disconnect()
+    previousStream?.getTracks().forEach((track) => {
+      track.stop()
+    })
+    return true
+  }
+
+  // 插拔设备时：当前设备已消失则切换，所选设备重新接入则切回
+  private readonly handleDeviceChange = () => {
+    void this.checkInput()
+  }
+
+  private async checkInput() {
+    const track = this.stream?.getAudioTracks()[0]
+    if (!this.isActive || !track) return
+    const devices = await listAudioInputs()
+    const currentId = track.getSettings().deviceId
+    const preferred = this.preferredDevice
+    const isCurrentAvailable = track.readyState === 'live' && devices.some((device) => device.deviceId === currentId)
+    const isPreferredAvailable = preferred !== null && devices.some((device) => device.deviceId === preferred)
+
+    if (isPreferredAvailable && currentId !== preferred) {
+      console.log('[录音] 所选麦克风已重新接入，切换回该设备')
+      await this.enqueueSwitch(preferred, true)
+    } else if (!isCurrentAvailable) {
+      console.warn('[录音] 当前麦克风已移除，切换到可用设备')
+      await this.enqueueSwitch(isPreferredAvailable ? preferred : null, true)
+    }
+  }
+}
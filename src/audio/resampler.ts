@@ -0,0 +1,117 @@
+// 流式重采样
+// 带限插值（加窗 sinc）：降采样时按目标采样率缩放低通截止频率，
+// 避免高于新奈奎斯特频率的成分混叠进语音频带。
+//
+// 注意：该类与 VoiceActivityDetector 一样会通过 toString() 内联到 AudioWorklet 中运行，
+// 因此必须自包含，字段用 declare 声明并在构造函数中赋值，不使用静态字段。
+
+export interface ResamplerConfig {
+  inputRate: number
+  outputRate: number
+  zeroCrossings?: number // 插值核单侧的过零点数，越大过渡带越窄，默认 16
+  rolloff?: number // 截止频率相对奈奎斯特频率的比例，默认 0.92
+}
+
+export class Resampler {
+  private declare readonly passthrough: boolean
+  private declare readonly step: number // 每个输出采样对应的输入采样数
+  private declare readonly scale: number // 低通截止频率（相对输入奈奎斯特频率）
+  private declare readonly halfWidth: number // 插值核单侧覆盖的输入采样数
+  private declare readonly zeroCrossings: number
+  private declare readonly resolution: number // 查找表每个过零区间的采样数
+  private declare readonly table: Float32Array // 插值核查找表（0 到 zeroCrossings）
+
+  // 尚未完全用完的输入（保留插值核左侧所需的历史）
+  private declare input: Float32Array
+  private declare inputLength: number
+  private declare time: number // 下一个输出采样在 input 中的位置
+
+  constructor(config: ResamplerConfig) {
+    const zeroCrossings = config.zeroCrossings ?? 16
+    const rolloff = config.rolloff ?? 0.92
+    this.passthrough = config.inputRate === config.outputRate
+    this.step = config.inputRate / config.outputRate
+    this.scale = Math.min(1, config.outputRate / config.inputRate) * rolloff
+    this.halfWidth = Math.ceil(zeroCrossings / this.scale) + 1
+    this.zeroCrossings = zeroCrossings
+    this.resolution = 256
+
+    // 加 Blackman 窗的 sinc
+    const size = zeroCrossings * this.resolution + 1
+    this.table = new Float32Array(size + 1)
+    for (let i = 0; i < size; i++) {
+      const x = i / this.resolution
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+      const u = x / zeroCrossings
+      const window = 0.42 + 0.5 * Math.cos(Math.PI * u) + 0.08 * Math.cos(2 * Math.PI * u)
+      this.table[i] = sinc * window
+    }
+
+    this.input = new Float32Array(4096)
+    this.inputLength = 0
+    this.time = 0
+    this.reset()
+  }
+
+  /**
+   * 输入任意长度的采样数据，返回本次可以输出的重采样结果
+   * 输出相对输入有 halfWidth 个输入采样点的固定延迟
+   */
+  process(samples: Float32Array): Float32Array {
+    if (this.passthrough) return samples.slice(0)
+
+    this.append(samples)
+
+    // 插值核右侧需要的输入都已到达的输出采样点数
+    const available = (this.inputLength - this.halfWidth - this.time) / this.step
+    const count = available > 0 ? Math.ceil(available) : 0
+    const output = new Float32Array(count)
+    for (let k = 0; k < count; k++) {
+      output[k] = this.interpolate(this.time + k * this.step)
+    }
+    this.time += count * this.step
+
+    // 丢弃之后不再需要的输入
+    const consumed = Math.floor(this.time) - this.halfWidth
+    if (consumed > 0) {
+      this.input.copyWithin(0, consumed, this.inputLength)
+      this.inputLength -= consumed
+      this.time -= consumed
+    }
+    return output
+  }
+
+  reset() {
+    // 开头补零，使第一个输出采样的左侧也有完整的插值核
+    this.input.fill(0, 0, this.halfWidth)
+    this.inputLength = this.halfWidth
+    this.time = this.halfWidth
+  }
+
+  private append(samples: Float32Array) {
+    const required = this.inputLength + samples.length
+    if (required > this.input.length) {
+      const grown = new Float32Array(Math.max(required, this.input.length * 2))
+      grown.set(this.input.subarray(0, this.inputLength))
+      this.input = grown
+    }
+    this.input.set(samples, this.inputLength)
+    this.inputLength = required
+  }
+
+  private interpolate(t: number): number {
+    const center = Math.floor(t)
+    const limit = this.zeroCrossings * this.resolution
+    let sum = 0
+    for (let n = center - this.halfWidth + 1; n <= center + this.halfWidth; n++) {
+      // 核函数自变量：距离按截止频率缩放后换算为查找表下标，线性插值
+      const position = Math.abs(t - n) * this.scale * this.resolution
+      const index = Math.floor(position)
+      if (index >= limit) continue
+      const fraction = position - index
+      const weight = this.table[index] + (this.table[index + 1] - this.table[index]) * fraction
+      sum += this.input[n] * weight
+    }
+    return sum * this.scale
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * 定长 PCM 环形缓冲区
+ * 只保留最近 capacity 个采样点，按录音中的绝对采样点位置读取
+ */
+export class PcmRingBuffer {
+  private readonly buffer: Float32Array
+  private writeIndex = 0 // 下一个写入位置（缓冲区下标）
+  private length = 0 // 有效采样点数
+  private end = 0 // 最后一个采样点之后的绝对位置
+
+  constructor(capacity: number) {
+    this.buffer = new Float32Array(Math.max(1, capacity))
+  }
+
+  // 缓冲区中最早采样点的绝对位置
+  get startPosition(): number {
+    return this.end - this.length
+  }
+
+  get endPosition(): number {
+    return this.end
+  }
+
+  /**
+   * 写入采样数据（start 为第一个采样点的绝对位置）
+   * 位置不连续时（如暂停后恢复）丢弃旧数据
+   */
+  write(samples: Float32Array, start: number) {
+    if (start !== this.end) {
+      this.clear()
+    }
+    this.end = start + samples.length
+
+    const capacity = this.buffer.length
+    // 超过容量时只需写入最后 capacity 个采样点
+    const data = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples
+    const firstPart = Math.min(data.length, capacity - this.writeIndex)
+    this.buffer.set(data.subarray(0, firstPart), this.writeIndex)
+    this.buffer.set(data.subarray(firstPart), 0)
+    this.writeIndex = (this.writeIndex + data.length) % capacity
+    this.length = Math.min(capacity, this.length + samples.length)
+  }
+
+  /**
+   * 读取 [from, to) 范围内的采样，超出缓冲区的部分会被截去
+   */
+  read(from: number, to: number): Float32Array {
+    const start = Math.max(from, this.startPosition)
+    const end = Math.min(to, this.end)
+    const result = new Float32Array(Math.max(0, end - start))
+    const capacity = this.buffer.length
+    // 绝对位置 → 缓冲区下标
+    const offset = (this.writeIndex - (this.end - start) % capacity + capacity) % capacity
+    const firstPart = Math.min(result.length, capacity - offset)
+    result.set(this.buffer.subarray(offset, offset + firstPart))
+    result.set(this.buffer.subarray(0, result.length - firstPart), firstPart)
+    return result
+  }
+
+  clear() {
+    this.writeIndex = 0
+    this.length = 0
+  }
+}
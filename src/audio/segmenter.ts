@@ -0,0 +1,226 @@
+import { VadEvent } from './vad'
+import { PcmRingBuffer } from './ringBuffer'
+
+// 语音片段
+export interface SpeechSegment {
+  samples: Float32Array
+  startSample: number // 片段在录音中的起点（采样点）
+  endSample: number // 片段终点（不含）
+  duration: number // ms
+  continuesPrevious: boolean // 由超长语音强制切分而来，开头与上一片段重叠
+  continuesNext: boolean // 说话未结束，被强制切分，下一片段紧接其后
+}
+
+interface SpeechSegmenterOptions {
+  sampleRate: number
+  minSpeechDuration: number // 短于该时长的片段丢弃 (ms)
+  retainDuration: number // 环形缓冲区保留的音频时长 (ms)，需覆盖 VAD 起始确认的延迟和预录时长
+  preRollDuration?: number // 片段在检测到的说话起点之前多保留的音频 (ms)，默认 0
+  trailingSilenceDuration?: number // 片段在最后有声位置之后保留的静音 (ms)，更长的静音会被裁掉，默认 0
+  maxSegmentDuration?: number // 片段最长时长 (ms)，超过后强制切分，默认 0（不限制）
+  splitSearchDuration?: number // 在最长时长之前多长范围内寻找最安静的切分点 (ms)，默认 1000
+  splitOverlapDuration?: number // 强制切分时前后片段重叠的时长 (ms)，默认 200
+  onSpeechStart?: (sample: number) => void
+  onSegment: (segment: SpeechSegment) => void
+  onDiscard?: (duration: number) => void
+}
+
+// 寻找切分点时的分析帧长 (ms)
+const SPLIT_FRAME_DURATION = 10
+
+interface PcmChunk {
+  samples: Float32Array
+  start: number
+}
+
+/**
+ * 语音分段器
+ * 接收带采样点位置的 PCM 数据和 VAD 事件，按说话开始/结束位置精确切出语音片段。
+ * 未说话时音频只写入定长环形缓冲区；确认开始说话后从中取出预录部分作为片段开头，
+ * 片段结束时裁掉超出保留时长的尾部静音。
+ * 持续说话超过最长时长时，在临近的最安静处强制切分，后一片段带少量重叠以免切断字词。
+ */
+export class SpeechSegmenter {
+  private readonly options: SpeechSegmenterOptions
+  private readonly ring: PcmRingBuffer
+  private readonly preRollSamples: number
+  private readonly trailingSamples: number
+  private readonly maxSamples: number
+  private readonly splitSearchSamples: number
+  private readonly overlapSamples: number
+  private chunks: PcmChunk[] = [] // 当前片段的音频（仅说话中）
+  private position = 0 // 已接收音频的终点
+  private speechStart: number | null = null // VAD 检测到的说话起点
+  private segmentStart = 0 // 片段实际起点（含预录）
+  private lastSegmentEnd = 0 // 上一片段终点，预录不与其重叠
+  private continuing = false // 当前片段是强制切分后的延续
+
+  constructor(options: SpeechSegmenterOptions) {
+    this.options = options
+    this.ring = new PcmRingBuffer(this.toSamples(options.retainDuration))
+    this.preRollSamples = this.toSamples(options.preRollDuration ?? 0)
+    this.trailingSamples = this.toSamples(options.trailingSilenceDuration ?? 0)
+    this.maxSamples = this.toSamples(options.maxSegmentDuration ?? 0)
+    this.splitSearchSamples = this.toSamples(options.splitSearchDuration ?? 1000)
+    this.overlapSamples = this.toSamples(options.splitOverlapDuration ?? 200)
+  }
+
+  get isSpeaking(): boolean {
+    return this.speechStart !== null
+  }
+
+  /**
+   * 追加音频数据（start 为该块第一个采样点的位置）
+   */
+  push(samples: Float32Array, start: number) {
+    this.ring.write(samples, start)
+    this.position = start + samples.length
+    if (this.speechStart !== null) {
+      this.chunks.push({ samples, start })
+      if (this.maxSamples > 0 && this.position - this.segmentStart >= this.maxSamples) {
+        this.splitSegment()
+      }
+    }
+  }
+
+  /**
+   * 处理 VAD 事件（须在对应的音频数据 push 之后调用）
+   */
+  handleEvent(event: VadEvent) {
+    if (event.type === 'speech-start') {
+      this.startSegment(event.sample)
+      this.options.onSpeechStart?.(event.sample)
+    } else if (event.type === 'speech-end' && this.speechStart !== null) {
+      this.finishSegment(event.sample, Math.min(this.position, event.sample + this.trailingSamples))
+    }
+  }
+
+  /**
+   * 结束录音：说话中则以已接收音频的终点结束片段
+   */
+  flush() {
+    if (this.speechStart !== null) {
+      this.finishSegment(this.position, this.position)
+    }
+    this.chunks = []
+  }
+
+  reset() {
+    this.ring.clear()
+    this.chunks = []
+    this.position = 0
+    this.speechStart = null
+    this.segmentStart = 0
+    this.lastSegmentEnd = 0
+    this.continuing = false
+  }
+
+  private toSamples(duration: number): number {
+    return Math.round(this.options.sampleRate * duration / 1000)
+  }
+
+  // 开始片段：从环形缓冲区取出说话起点之前的预录音频
+  private startSegment(speechStart: number) {
+    const from = Math.max(speechStart - this.preRollSamples, this.lastSegmentEnd, this.ring.startPosition)
+    this.speechStart = speechStart
+    this.segmentStart = from
+    this.continuing = false
+    this.chunks = [{ samples: this.ring.read(from, this.position), start: from }]
+  }
+
+  // 超长语音强制切分：在最长时长之前的搜索范围内找能量最低的帧，
+  // 当前片段在该帧中点结束，下一片段从其之前 overlap 处开始，说话状态保持不变
+  private splitSegment() {
+    const limit = this.segmentStart + this.maxSamples
+    const searchFrom = Math.max(this.segmentStart + this.overlapSamples * 2, limit - this.splitSearchSamples)
+    const split = this.findQuietestPoint(searchFrom, limit)
+
+    this.options.onSegment({
+      samples: this.extract(this.segmentStart, split),
+      startSample: this.segmentStart,
+      endSample: split,
+      duration: (split - this.segmentStart) / this.options.sampleRate * 1000,
+      continuesPrevious: this.continuing,
+      continuesNext: true,
+    })
+
+    this.lastSegmentEnd = split
+    this.segmentStart = split - this.overlapSamples
+    this.speechStart = this.segmentStart
+    this.continuing = true
+    this.dropBefore(this.segmentStart)
+  }
+
+  private findQuietestPoint(from: number, to: number): number {
+    const frameSize = this.toSamples(SPLIT_FRAME_DURATION)
+    const samples = this.extract(from, to)
+    if (samples.length < frameSize) return to
+
+    let quietest = to
+    let minEnergy = Infinity
+    for (let offset = 0; offset + frameSize <= samples.length; offset += frameSize) {
+      let energy = 0
+      for (let i = offset; i < offset + frameSize; i++) {
+        energy += samples[i] * samples[i]
+      }
+      if (energy < minEnergy) {
+        minEnergy = energy
+        quietest = from + offset + Math.floor(frameSize / 2)
+      }
+    }
+    return quietest
+  }
+
+  // speechEnd 为最后有声位置，end 为含尾部静音的片段终点
+  private finishSegment(speechEnd: number, end: number) {
+    const speechStart = this.speechStart ?? speechEnd
+    const start = this.segmentStart
+    const continuesPrevious = this.continuing
+    this.speechStart = null
+    this.continuing = false
+
+    // 时长门限只看说话部分，不计预录和尾部静音；
+    // 强制切分后的延续片段只要有切分点之后的音频就保留
+    const speechDuration = (speechEnd - speechStart) / this.options.sampleRate * 1000
+    const tooShort = continuesPrevious
+      ? end <= this.lastSegmentEnd
+      : speechDuration < this.options.minSpeechDuration
+    if (tooShort) {
+      this.options.onDiscard?.(speechDuration)
+    } else {
+      this.options.onSegment({
+        samples: this.extract(start, end),
+        startSample: start,
+        endSample: end,
+        duration: (end - start) / this.options.sampleRate * 1000,
+        continuesPrevious,
+        continuesNext: false,
+      })
+      this.lastSegmentEnd = end
+    }
+
+    this.chunks = []
+  }
+
+  // 取出 [start, end) 范围内的采样
+  private extract(start: number, end: number): Float32Array {
+    const result = new Float32Array(Math.max(0, end - start))
+    for (const chunk of this.chunks) {
+      const from = Math.max(start, chunk.start)
+      const to = Math.min(end, chunk.start + chunk.samples.length)
+      if (from < to) {
+        result.set(chunk.samples.subarray(from - chunk.start, to - chunk.start), from - start)
+      }
+    }
+    return result
+  }
+
+  // 丢弃终点早于 sample 的数据块
+  private dropBefore(sample: number) {
+    while (this.chunks.length > 0) {
+      const first = this.chunks[0]
+      if (first.start + first.samples.length > sample) break
+      this.chunks.shift()
+    }
+  }
+}
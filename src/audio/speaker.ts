@@ -0,0 +1,75 @@
+// 说话人标注
+// 录音过程中按采样点区间记录医生/患者的依据（按键时长或各声道能量），
+// 片段结束时取区间内占比更大的一方作为该片段的说话人。
+
+export type Speaker = 'doctor' | 'patient'
+
+// 说话人识别方式：按住按钮标记医生发言，或双声道麦克风（第二声道为医生）
+export type SpeakerMode = 'push-to-talk' | 'dual-channel'
+
+export const SPEAKER_LABELS: Record<Speaker, string> = {
+  doctor: '医生',
+  patient: '患者',
+}
+
+interface SpeakerEvidence {
+  start: number
+  end: number
+  patient: number
+  doctor: number
+}
+
+export class SpeakerTracker {
+  private evidence: SpeakerEvidence[] = []
+
+  /**
+   * 记录 [start, end) 区间内双方的权重
+   */
+  add(start: number, end: number, patient: number, doctor: number) {
+    this.evidence.push({ start, end, patient, doctor })
+  }
+
+  /**
+   * 判定 [start, end) 区间的说话人，部分重叠的记录按重叠比例计权，无依据时视为患者
+   */
+  resolve(start: number, end: number): Speaker {
+    let patient = 0
+    let doctor = 0
+    for (const item of this.evidence) {
+      const overlap = Math.min(end, item.end) - Math.max(start, item.start)
+      if (overlap <= 0) continue
+      const ratio = overlap / (item.end - item.start)
+      patient += item.patient * ratio
+      doctor += item.doctor * ratio
+    }
+    return doctor > patient ? 'doctor' : 'patient'
+  }
+
+  /**
+   * 丢弃终点早于 sample 的记录
+   */
+  prune(sample: number) {
+    let count = 0
+    while (count < this.evidence.length && this.evidence[count].end <= sample) count++
+    if (count > 0) this.evidence.splice(0, count)
+  }
+
+  reset() {
+    this.evidence = []
+  }
+}
+
+/**
+ * 双声道混为单声道，同时统计各声道能量（第一声道为患者，第二声道为医生）
+ * 注意：该函数会通过 toString() 内联到 AudioWorklet 中运行，必须自包含
+ */
+export function downmixStereo(first: Float32Array, second: Float32Array): { samples: Float32Array; energy: [number, number] } {
+  const samples = new Float32Array(first.length)
+  const energy: [number, number] = [0, 0]
+  for (let i = 0; i < first.length; i++) {
+    samples[i] = (first[i] + second[i]) / 2
+    energy[0] += first[i] * first[i]
+    energy[1] += second[i] * second[i]
+  }
+  return { samples, energy }
+}
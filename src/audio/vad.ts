@@ -0,0 +1,279 @@
+// 语音活动检测（VAD）
+// 按 10ms 帧计算能量和过零率，带起始确认和结束拖尾（hangover）平滑，
+// 输出以采样点为单位的说话开始/结束位置。
+//
+// 注意：该类会通过 toString() 内联到 AudioWorklet 中运行，
+// 因此必须自包含，不能引用模块内的其他函数或常量。
+// 字段统一用 declare 声明并在构造函数中赋值，也不使用静态字段，
+// 避免构建时被降级为引用外部辅助函数的代码。
+
+export interface VadConfig {
+  sampleRate: number
+  threshold: number // 能量阈值（0-1 电平，见 rmsToLevel）
+  frameDuration?: number // 帧长 (ms)，默认 10
+  onsetDuration?: number // 连续有声多久才确认开始说话 (ms)，默认 100
+  hangoverDuration?: number // 连续静音多久才判定说话结束 (ms)，默认 2000
+  maxZeroCrossingRate?: number // 起始确认时有声帧允许的最大过零率，用于排除键盘声等冲击噪声，默认 0.35
+  calibrationDuration?: number // 开始时测量环境噪声的时长 (ms)，期间不检测说话，默认 0（不校准）
+  adaptive?: boolean // 是否根据环境噪声缓慢调整阈值
+  thresholdMargin?: number // 自适应时阈值高于噪声底的电平差，默认 0.2（约 10 dB）
+}
+
+export type VadEvent =
+  | { type: 'speech-start'; sample: number }
+  | { type: 'speech-end'; sample: number }
+  | { type: 'calibrated'; sample: number; noiseFloor: number; threshold: number }
+  | { type: 'threshold'; sample: number; noiseFloor: number; threshold: number }
+
+export class VoiceActivityDetector {
+  /**
+   * RMS 幅度转换为 0-1 电平
+   * 映射范围：-50 dBFS → 0，0 dBFS → 1
+   */
+  static rmsToLevel(rms: number): number {
+    if (rms <= 0) return 0
+    const db = 20 * Math.log10(rms)
+    return Math.min(1, Math.max(0, (db + 50) / 50))
+  }
+
+  private declare threshold: number
+  private declare baseThreshold: number // 配置的阈值，测得噪声底之前使用
+  private declare readonly frameSize: number
+  private declare readonly onsetFrames: number
+  private declare readonly hangoverFrames: number
+  private declare readonly maxZeroCrossingRate: number
+  private declare readonly adaptive: boolean
+  private declare readonly thresholdMargin: number
+  private declare readonly reportFrames: number // 阈值变化上报间隔（帧）
+  private declare readonly warmupFrames: number // 未校准时噪声底跟踪多少帧后才用于计算阈值
+
+  // 帧缓冲
+  private declare readonly frame: Float32Array
+  private declare frameFill: number
+  private declare processedSamples: number // 已处理的采样点总数（下一帧的起始位置）
+
+  // 状态
+  private declare isSpeech: boolean
+  private declare voicedFrames: number // 连续有声帧（能量达标且过零率正常）
+  private declare silentFrames: number // 说话中连续静音帧
+  private declare aboveRunStart: number | null // 当前连续能量达标段的起点
+  private declare lastAboveEnd: number // 最后一个能量达标帧的终点
+  private declare lastLevel: number
+
+  // 环境噪声
+  private declare calibrationFrames: number // 剩余校准帧数
+  private declare calibrationLevels: number[]
+  private declare noiseFloor: number
+  private declare floorMeasured: boolean // 噪声底已校准或跟踪了足够长的时间
+  private declare trackedFrames: number
+  private declare reportedThreshold: number
+  private declare framesSinceReport: number
+
+  constructor(config: VadConfig) {
+    const frameDuration = config.frameDuration ?? 10
+    this.threshold = config.threshold
+    this.baseThreshold = config.threshold
+    this.frameSize = Math.round(config.sampleRate * frameDuration / 1000)
+    this.onsetFrames = Math.max(1, Math.round((config.onsetDuration ?? 100) / frameDuration))
+    this.hangoverFrames = Math.max(1, Math.round((config.hangoverDuration ?? 2000) / frameDuration))
+    this.maxZeroCrossingRate = config.maxZeroCrossingRate ?? 0.35
+    this.adaptive = config.adaptive ?? false
+    this.thresholdMargin = config.thresholdMargin ?? 0.2
+    this.reportFrames = Math.round(500 / frameDuration)
+    this.warmupFrames = Math.round(1000 / frameDuration)
+    this.frame = new Float32Array(this.frameSize)
+    this.frameFill = 0
+    this.processedSamples = 0
+    this.isSpeech = false
+    this.voicedFrames = 0
+    this.silentFrames = 0
+    this.aboveRunStart = null
+    this.lastAboveEnd = 0
+    this.lastLevel = 0
+    this.calibrationFrames = Math.round((config.calibrationDuration ?? 0) / frameDuration)
+    this.calibrationLevels = []
+    this.noiseFloor = Math.max(0, config.threshold - this.thresholdMargin)
+    this.floorMeasured = false
+    this.trackedFrames = 0
+    this.reportedThreshold = config.threshold
+    this.framesSinceReport = 0
+  }
+
+  get level(): number {
+    return this.lastLevel
+  }
+
+  get speaking(): boolean {
+    return this.isSpeech
+  }
+
+  get position(): number {
+    return this.processedSamples + this.frameFill
+  }
+
+  get calibrating(): boolean {
+    return this.calibrationFrames > 0
+  }
+
+  get currentThreshold(): number {
+    return this.threshold
+  }
+
+  // 手动设置阈值：之前跟踪的噪声底作废，重新测得之前使用该阈值
+  setThreshold(threshold: number) {
+    this.threshold = threshold
+    this.baseThreshold = threshold
+    this.noiseFloor = Math.max(0, threshold - this.thresholdMargin)
+    this.floorMeasured = false
+    this.trackedFrames = 0
+  }
+
+  /**
+   * 输入任意长度的采样数据，返回期间产生的事件
+   */
+  process(samples: Float32Array): VadEvent[] {
+    const events: VadEvent[] = []
+    let offset = 0
+    while (offset < samples.length) {
+      const count = Math.min(this.frameSize - this.frameFill, samples.length - offset)
+      this.frame.set(samples.subarray(offset, offset + count), this.frameFill)
+      this.frameFill += count
+      offset += count
+
+      if (this.frameFill === this.frameSize) {
+        this.processFrame(events)
+        this.processedSamples += this.frameSize
+        this.frameFill = 0
+      }
+    }
+    return events
+  }
+
+  /**
+   * 结束输入：说话中则在最后一个有声帧处结束
+   */
+  flush(): VadEvent[] {
+    if (!this.isSpeech) return []
+    const event: VadEvent = { type: 'speech-end', sample: this.lastAboveEnd }
+    this.resetState()
+    return [event]
+  }
+
+  reset() {
+    this.resetState()
+    this.frameFill = 0
+    this.processedSamples = 0
+  }
+
+  private resetState() {
+    this.isSpeech = false
+    this.voicedFrames = 0
+    this.silentFrames = 0
+    this.aboveRunStart = null
+  }
+
+  private processFrame(events: VadEvent[]) {
+    const frame = this.frame
+    const frameStart = this.processedSamples
+    const frameEnd = frameStart + this.frameSize
+
+    // 帧能量与过零率
+    let sumSquares = 0
+    let crossings = 0
+    for (let i = 0; i < frame.length; i++) {
+      sumSquares += frame[i] * frame[i]
+      if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++
+    }
+    const level = VoiceActivityDetector.rmsToLevel(Math.sqrt(sumSquares / frame.length))
+    const zeroCrossingRate = crossings / (frame.length - 1)
+    this.lastLevel = level
+
+    // 校准阶段：只记录电平，结束时以噪声电平的中位数作为噪声底
+    if (this.calibrationFrames > 0) {
+      this.calibrationLevels.push(level)
+      this.calibrationFrames--
+      if (this.calibrationFrames > 0) return
+
+      const sorted = this.calibrationLevels.slice().sort((a, b) => a - b)
+      this.noiseFloor = sorted[Math.floor(sorted.length / 2)]
+      this.calibrationLevels = []
+      this.floorMeasured = true
+      this.threshold = this.thresholdFromFloor()
+      this.reportedThreshold = this.threshold
+      events.push({ type: 'calibrated', sample: frameEnd, noiseFloor: this.noiseFloor, threshold: this.threshold })
+      return
+    }
+
+    const isAbove = level >= this.threshold
+    const isVoiced = isAbove && zeroCrossingRate <= this.maxZeroCrossingRate
+
+    this.adaptToNoise(level, isAbove, frameEnd, events)
+
+    if (!this.isSpeech) {
+      // 记录连续能量达标段的起点，确认说话后以此作为开始位置（保留清辅音开头）
+      if (isAbove) {
+        if (this.aboveRunStart === null) this.aboveRunStart = frameStart
+      } else {
+        this.aboveRunStart = null
+      }
+
+      this.voicedFrames = isVoiced ? this.voicedFrames + 1 : 0
+
+      if (this.voicedFrames >= this.onsetFrames) {
+        this.isSpeech = true
+        this.silentFrames = 0
+        this.lastAboveEnd = frameEnd
+        events.push({ type: 'speech-start', sample: this.aboveRunStart ?? frameStart })
+      }
+      return
+    }
+
+    // 说话中：只看能量，清辅音等高过零率帧也视为说话
+    if (isAbove) {
+      this.lastAboveEnd = frameEnd
+      this.silentFrames = 0
+      return
+    }
+
+    this.silentFrames++
+    if (this.silentFrames >= this.hangoverFrames) {
+      events.push({ type: 'speech-end', sample: this.lastAboveEnd })
+      this.resetState()
+    }
+  }
+
+  // 噪声底尚未测得时（初始值只是估计）保持配置的阈值，避免一开始就被抬高而漏掉较轻的说话声
+  private thresholdFromFloor(): number {
+    if (!this.floorMeasured) return this.baseThreshold
+    return Math.min(0.6, Math.max(0.05, this.noiseFloor + this.thresholdMargin))
+  }
+
+  // 噪声底跟踪：电平低于噪声底时快速下降；高于时缓慢上升，
+  // 超过阈值的帧（可能是说话）上升得更慢，避免被说话带高，
+  // 但持续的强噪声最终也会抬高阈值
+  private adaptToNoise(level: number, isAbove: boolean, sample: number, events: VadEvent[]) {
+    if (!this.adaptive) return
+
+    // 未校准时从估计值开始跟踪，起初按较快的速度上升，尽快接近实际环境噪声
+    const rate = level < this.noiseFloor ? 0.02 : isAbove ? 0.0001 : this.floorMeasured ? 0.002 : 0.02
+    this.noiseFloor += (level - this.noiseFloor) * rate
+    if (!this.floorMeasured && ++this.trackedFrames >= this.warmupFrames) this.floorMeasured = true
+    this.threshold = this.thresholdFromFloor()
+
+    // 定期上报明显的阈值变化
+    this.framesSinceReport++
+    if (this.framesSinceReport < this.reportFrames || Math.abs(this.threshold - this.reportedThreshold) < 0.005) {
+      return
+    }
+    this.framesSinceReport = 0
+    this.reportedThreshold = this.threshold
+    events.push({ type: 'threshold', sample, noiseFloor: this.noiseFloor, threshold: this.threshold })
+  }
+}
+
+/**
+ * RMS 幅度转换为 0-1 电平（与 VAD 阈值使用同一刻度）
+ */
+export function rmsToLevel(rms: number): number {
+  return VoiceActivityDetector.rmsToLevel(rms)
+}
@@ -0,0 +1,86 @@
+// WAV 解析：不依赖 Web Audio，可在浏览器之外使用（回放调试、回归样本）
+// 支持 8/16/24/32 位整数 PCM 与 32 位浮点，含 WAVE_FORMAT_EXTENSIBLE
+
+export interface WavData {
+  sampleRate: number
+  channels: Float32Array[] // 每个声道的采样（-1 ~ 1）
+  duration: number // ms
+}
+
+const FORMAT_PCM = 1
+const FORMAT_FLOAT = 3
+const FORMAT_EXTENSIBLE = 0xFFFE
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3))
+}
+
+/**
+ * 解析 WAV 文件
+ */
+export function decodeWAV(buffer: ArrayBuffer): WavData {
+  const view = new DataView(buffer)
+  if (buffer.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('不是有效的 WAV 文件')
+  }
+
+  let format = 0
+  let channelCount = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let dataOffset = -1
+  let dataLength = 0
+
+  // 逐个读取 chunk，跳过 LIST 等无关内容（chunk 按偶数字节对齐）
+  for (let offset = 12; offset + 8 <= buffer.byteLength;) {
+    const tag = readTag(view, offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true)
+      channelCount = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+      if (format === FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true) // 子格式 GUID 的前两个字节
+      }
+    } else if (tag === 'data') {
+      dataOffset = body
+      // 录音中断的文件 data 长度可能未回写，以实际文件长度为准
+      dataLength = Math.min(size, buffer.byteLength - body)
+      break
+    }
+    offset = body + size + (size % 2)
+  }
+
+  if (dataOffset < 0 || channelCount === 0) throw new Error('WAV 文件缺少 fmt 或 data 块')
+  const isFloat = format === FORMAT_FLOAT && bitsPerSample === 32
+  if (!isFloat && (format !== FORMAT_PCM || ![8, 16, 24, 32].includes(bitsPerSample))) {
+    throw new Error(`不支持的 WAV 编码（格式 ${format.toString()}，${bitsPerSample.toString()} 位）`)
+  }
+
+  const bytesPerSample = bitsPerSample / 8
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channelCount))
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount))
+
+  for (let frame = 0, position = dataOffset; frame < frameCount; frame++) {
+    for (let channel = 0; channel < channelCount; channel++, position += bytesPerSample) {
+      let value: number
+      if (isFloat) {
+        value = view.getFloat32(position, true)
+      } else if (bitsPerSample === 8) {
+        value = (view.getUint8(position) - 128) / 128 // 8 位为无符号
+      } else if (bitsPerSample === 16) {
+        value = view.getInt16(position, true) / 0x8000
+      } else if (bitsPerSample === 24) {
+        const raw = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16)
+        value = raw / 0x800000
+      } else {
+        value = view.getInt32(position, true) / 0x80000000
+      }
+      channels[channel][frame] = value
+    }
+  }
+
+  return { sampleRate, channels, duration: frameCount / sampleRate * 1000 }
+}
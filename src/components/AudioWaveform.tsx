@@ -1,14 +1,25 @@
 import { useEffect, useRef, useState } from 'react'
+import { rmsToLevel } from '../audio/vad'
 
 interface AudioWaveformProps {
   analyser: AnalyserNode | null
   isRecording: boolean
   isPaused?: boolean // 是否暂停
   silenceThreshold?: number // 静音阈值，用于显示
+  noiseFloor?: number // 环境噪声电平（校准后显示）
+  isCalibrating?: boolean // 是否正在测量环境噪声
   className?: string
 }
 
-export function AudioWaveform({ analyser, isRecording, isPaused = false, silenceThreshold = 0.08, className = '' }: AudioWaveformProps) {
+export function AudioWaveform({
+  analyser,
+  isRecording,
+  isPaused = false,
+  silenceThreshold = 0.08,
+  noiseFloor,
+  isCalibrating = false,
+  className = '',
+}: AudioWaveformProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const animationRef = useRef<number>()
   const [currentVolume, setCurrentVolume] = useState(0) // 当前音量百分比
@@ -29,6 +40,7 @@ export function AudioWaveform({ analyser, isRecording, isPaused = false, silence
 
     const bufferLength = analyser.frequencyBinCount
     const dataArray = new Uint8Array(bufferLength)
+    const timeDomainData = new Float32Array(analyser.fftSize)
 
     const draw = () => {
       animationRef.current = requestAnimationFrame(draw)
@@ -62,13 +74,13 @@ export function AudioWaveform({ analyser, isRecording, isPaused = false, silence
       ctx.fillStyle = 'rgb(239, 246, 255)'
       ctx.fillRect(0, 0, rect.width, rect.height)
 
-      // 计算平均音量
-      let sum = 0
-      for (let i = 0; i < bufferLength; i++) {
-        sum += dataArray[i]
+      // 计算电平（与录音 VAD 使用同一刻度，便于对照阈值）
+      analyser.getFloatTimeDomainData(timeDomainData)
+      let sumSquares = 0
+      for (let i = 0; i < timeDomainData.length; i++) {
+        sumSquares += timeDomainData[i] * timeDomainData[i]
       }
-      const average = sum / bufferLength
-      const normalized = average / 255
+      const normalized = rmsToLevel(Math.sqrt(sumSquares / timeDomainData.length))
 
       // 更新当前音量（用于显示）
       setCurrentVolume(normalized)
@@ -95,6 +107,26 @@ export function AudioWaveform({ analyser, isRecording, isPaused = false, silence
         x += barWidth + 1
       }
 
+      // 校准中：提示保持安静，不显示阈值线
+      if (isCalibrating) {
+        ctx.fillStyle = 'rgb(29, 78, 216)'
+        ctx.font = '12px sans-serif'
+        ctx.textAlign = 'center'
+        ctx.fillText('正在测量环境噪声，请保持安静…', rect.width / 2, 16)
+        return
+      }
+
+      // 绘制噪声线
+      if (noiseFloor !== undefined) {
+        const noiseY = rect.height * (1 - noiseFloor * 0.8)
+        ctx.beginPath()
+        ctx.moveTo(0, noiseY)
+        ctx.lineTo(rect.width, noiseY)
+        ctx.strokeStyle = 'rgba(107, 114, 128, 0.4)'
+        ctx.lineWidth = 1
+        ctx.stroke()
+      }
+
       // 绘制阈值线
       const thresholdY = rect.height * (1 - silenceThreshold * 0.8)
       ctx.beginPath()
@@ -114,7 +146,7 @@ export function AudioWaveform({ analyser, isRecording, isPaused = false, silence
         cancelAnimationFrame(animationRef.current)
       }
     }
-  }, [analyser, isRecording, isPaused, silenceThreshold])
+  }, [analyser, isRecording, isPaused, silenceThreshold, noiseFloor, isCalibrating])
 
   return (
     <div className="relative">
@@ -129,7 +161,10 @@ export function AudioWaveform({ analyser, isRecording, isPaused = false, silence
           <div className={`w-2 h-2 rounded-full ${currentVolume >= silenceThreshold ? 'bg-blue-500' : 'bg-gray-400'}`}></div>
           <span className="text-xs text-gray-600">{(currentVolume * 100).toFixed(0)}%</span>
         </div>
-        <span className="text-xs text-gray-400">阈值: {(silenceThreshold * 100).toFixed(0)}%</span>
+        {noiseFloor !== undefined && (
+          <span className="text-xs text-gray-400">噪声: {(noiseFloor * 100).toFixed(0)}%</span>
+        )}
+        <span className="text-xs text-gray-400">阈值: {isCalibrating ? '校准中' : `${(silenceThreshold * 100).toFixed(0)}%`}</span>
       </div>
     </div>
   )
@@ -0,0 +1,278 @@
+import { useEffect, useState } from 'react'
+import {
+  listConversations,
+  getConversationDetail,
+  isApiError,
+  ConversationSummary,
+  ConversationDetailResponse,
+} from '../api/consultation'
+import { SPEAKER_LABELS } from '../audio/speaker'
+import { SYMPTOM_VERDICT_STYLES } from '../hooks/useSymptomBoard'
+
+interface ConsultationHistoryProps {
+  onBack: () => void
+  onResume?: (detail: ConversationDetailResponse) => void // 继续该问诊
+}
+
+const PAGE_SIZE = 20
+
+function formatDateTime(value: string): string {
+  return new Date(value).toLocaleString('zh-CN', {
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function describeError(error: unknown): string {
+  if (isApiError(error) && error.kind !== 'http') return '无法连接服务器，请检查网络连接'
+  return (error as Error).message
+}
+
+export function ConsultationHistory({ onBack, onResume }: ConsultationHistoryProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [detail, setDetail] = useState<ConversationDetailResponse | null>(null)
+  const [isLoadingDetail, setIsLoadingDetail] = useState(false)
+  const [detailError, setDetailError] = useState<string | null>(null)
+
+  // 加载对话列表
+  const loadConversations = async (skip: number, signal?: AbortSignal) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const result = await listConversations({ skip, limit: PAGE_SIZE, signal })
+      setConversations((prev) => (skip === 0 ? result.conversations : [...prev, ...result.conversations]))
+      setTotal(result.total)
+      console.log(`[历史] ✓ 已加载 ${result.conversations.length} 条对话 (共 ${result.total} 条)`)
+    } catch (err) {
+      if (isApiError(err) && err.kind === 'aborted') return
+      console.error('[历史] ✗ 加载对话列表失败:', err)
+      setError(describeError(err))
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    const controller = new AbortController()
+    void loadConversations(0, controller.signal)
+    return () => {
+      controller.abort()
+    }
+  }, [])
+
+  // 加载选中对话的详情
+  useEffect(() => {
+    if (selectedId === null) {
+      setDetail(null)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoadingDetail(true)
+    setDetailError(null)
+
+    getConversationDetail(selectedId, { signal: controller.signal })
+      .then((result) => {
+        setDetail(result)
+      })
+      .catch((err: unknown) => {
+        if (isApiError(err) && err.kind === 'aborted') return
+        console.error('[历史] ✗ 加载对话详情失败:', err)
+        setDetailError(describeError(err))
+      })
+      .finally(() => {
+        setIsLoadingDetail(false)
+      })
+
+    return () => {
+      controller.abort()
+    }
+  }, [selectedId])
+
+  // 对话详情
+  if (selectedId !== null) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col">
+        <header className="bg-white shadow-sm sticky top-0 z-50">
+          <div className="px-4 py-3 flex items-center justify-between">
+            <button
+              onClick={() => setSelectedId(null)}
+              className="px-3 py-2 text-sm text-gray-600 rounded-lg active:bg-gray-100"
+            >
+              ← 返回列表
+            </button>
+            <span className="text-sm font-semibold text-gray-900">问诊详情</span>
+            <span className="w-20" />
+          </div>
+        </header>
+
+        <main className="flex-1 overflow-auto px-4 py-4 pb-safe-bottom">
+          <div className="max-w-2xl mx-auto space-y-4">
+            {isLoadingDetail && (
+              <div className="text-center py-8 text-gray-400 text-sm">加载中...</div>
+            )}
+            {detailError && (
+              <div className="bg-red-50 text-red-600 text-sm rounded-2xl p-4">{detailError}</div>
+            )}
+            {detail && (
+              <>
+                {/* 会话信息 */}
+                <section className="bg-white rounded-2xl shadow-sm p-4">
+                  <h3 className="text-base font-semibold text-gray-900 mb-2">{detail.title}</h3>
+                  <div className="grid grid-cols-2 gap-2 text-xs text-gray-500">
+                    <span>科室：{detail.department}</span>
+                    <span>消息数：{detail.message_count}</span>
+                    <span>开始：{formatDateTime(detail.created_at)}</span>
+                    <span>更新：{formatDateTime(detail.updated_at)}</span>
+                  </div>
+                  {onResume && (
+                    <button
+                      onClick={() => onResume(detail)}
+                      className="w-full mt-4 bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold py-3 rounded-2xl shadow active:scale-[0.98] transition-all"
+                    >
+                      继续问诊
+                    </button>
+                  )}
+                </section>
+
+                {/* 对话记录 */}
+                <section className="bg-white rounded-2xl shadow-sm p-4">
+                  <h3 className="text-sm font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                    <span className="text-lg">💬</span>
+                    对话记录
+                  </h3>
+                  <div className="space-y-3">
+                    {!detail.messages || detail.messages.length === 0 ? (
+                      <div className="text-center py-8 text-gray-400 text-sm">暂无对话内容</div>
+                    ) : (
+                      detail.messages.map((msg) => (
+                        <div
+                          key={msg.message_id}
+                          className={`max-w-[85%] rounded-2xl px-4 py-3 ${
+                            msg.speaker === 'doctor'
+                              ? 'ml-auto bg-emerald-50 rounded-tr-none'
+                              : 'mr-auto bg-gray-50 rounded-tl-none'
+                          }`}
+                        >
+                          <p className="text-sm text-gray-800">{msg.content}</p>
+                          {msg.original_content && msg.original_content !== msg.content && (
+                            <p className="text-xs text-gray-400 mt-0.5">
+                              <span className="line-through">{msg.original_content}</span>
+                              <span className="ml-1">已修正</span>
+                            </p>
+                          )}
+                          {msg.results && msg.results.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-2">
+                              {msg.results.map((r) => {
+                                // 医生的判断显示在模型匹配结果旁
+                                const feedback = msg.feedback?.find((f) => f.cui === r.cui)
+                                return (
+                                  <span key={r.cui} className="inline-flex items-center gap-1" title={feedback?.note || undefined}>
+                                    <span className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-600">
+                                      {r.summary} {Math.round(r.confidence_score * 100)}%
+                                    </span>
+                                    {feedback && (
+                                      <span className={`text-xs px-1.5 py-0.5 rounded ${SYMPTOM_VERDICT_STYLES[feedback.verdict].className}`}>
+                                        {SYMPTOM_VERDICT_STYLES[feedback.verdict].label}
+                                        {feedback.note && ` · ${feedback.note}`}
+                                      </span>
+                                    )}
+                                  </span>
+                                )
+                              })}
+                            </div>
+                          )}
+                          <p className="text-xs text-gray-400 mt-1">
+                            {msg.speaker && `${SPEAKER_LABELS[msg.speaker]} · `}
+                            {msg.input_type === 'text' && '⌨ 文字输入 · '}
+                            {new Date(msg.created_at).toLocaleTimeString('zh-CN', {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                              second: '2-digit',
+                            })}
+                          </p>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </section>
+              </>
+            )}
+          </div>
+        </main>
+      </div>
+    )
+  }
+
+  // 对话列表
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col">
+      <header className="bg-white shadow-sm sticky top-0 z-50">
+        <div className="px-4 py-3 flex items-center justify-between">
+          <button
+            onClick={onBack}
+            className="px-3 py-2 text-sm text-gray-600 rounded-lg active:bg-gray-100"
+          >
+            ← 返回
+          </button>
+          <span className="text-sm font-semibold text-gray-900">问诊记录</span>
+          <button
+            onClick={() => void loadConversations(0)}
+            className="px-3 py-2 text-sm text-blue-600 rounded-lg active:bg-blue-50"
+          >
+            刷新
+          </button>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-auto px-4 py-4 pb-safe-bottom">
+        <div className="max-w-2xl mx-auto space-y-2">
+          {error && (
+            <div className="bg-red-50 text-red-600 text-sm rounded-2xl p-4">{error}</div>
+          )}
+          {!isLoading && !error && conversations.length === 0 && (
+            <div className="text-center py-8 text-gray-400 text-sm">暂无问诊记录</div>
+          )}
+          {conversations.map((conversation) => (
+            <button
+              key={conversation.conversation_id}
+              onClick={() => setSelectedId(conversation.conversation_id)}
+              className="w-full text-left bg-white rounded-2xl shadow-sm p-4 active:bg-gray-50 transition-colors"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-medium text-gray-900">{conversation.title}</span>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-600">
+                  {conversation.department}
+                </span>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <span>{conversation.message_count} 条消息</span>
+                <span className="text-gray-300">·</span>
+                <span>{formatDateTime(conversation.created_at)}</span>
+                <span className="text-gray-300">→</span>
+                <span>{formatDateTime(conversation.updated_at)}</span>
+              </div>
+            </button>
+          ))}
+          {isLoading && (
+            <div className="text-center py-4 text-gray-400 text-sm">加载中...</div>
+          )}
+          {!isLoading && conversations.length < total && (
+            <button
+              onClick={() => void loadConversations(conversations.length)}
+              className="w-full py-3 text-sm text-blue-600 rounded-2xl active:bg-blue-50"
+            >
+              加载更多
+            </button>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,93 @@
+import { MockApiSettings, MockErrorKind } from '../api/mock'
+
+interface DemoModeSettingsProps {
+  settings: MockApiSettings
+  onChange: (changes: Partial<MockApiSettings>) => void
+  onReset: () => void // 清空演示数据
+}
+
+const ERROR_KIND_LABELS: Record<MockErrorKind, string> = {
+  network: '网络断开',
+  timeout: '请求超时',
+  server: '服务器错误 (500)',
+  rejected: '拒绝请求 (422)',
+}
+
+// 演示模式设置：不连接服务器，由浏览器内的模拟后端返回预置的问诊数据
+export function DemoModeSettings({ settings, onChange, onReset }: DemoModeSettingsProps) {
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-100 text-sm text-gray-600">
+      <label className="flex items-center justify-center gap-2">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => {
+            onChange({ enabled: e.target.checked })
+          }}
+          className="w-4 h-4 accent-amber-500"
+        />
+        演示模式（使用模拟数据，不连接服务器）
+      </label>
+
+      {settings.enabled && (
+        <div className="mt-3 space-y-2 bg-amber-50 rounded-xl p-3 text-xs">
+          <label className="flex items-center justify-between gap-2">
+            响应延迟
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={0}
+                max={5000}
+                step={100}
+                value={settings.latency}
+                onChange={(e) => {
+                  onChange({ latency: Number(e.target.value) })
+                }}
+                className="w-28 accent-amber-500"
+              />
+              <span className="w-14 text-right">{settings.latency}ms</span>
+            </span>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            错误率
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={settings.errorRate}
+                onChange={(e) => {
+                  onChange({ errorRate: Number(e.target.value) })
+                }}
+                className="w-28 accent-amber-500"
+              />
+              <span className="w-14 text-right">{Math.round(settings.errorRate * 100)}%</span>
+            </span>
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            错误类型
+            <select
+              value={settings.errorKind}
+              disabled={settings.errorRate === 0}
+              onChange={(e) => {
+                onChange({ errorKind: e.target.value as MockErrorKind })
+              }}
+              className="border border-gray-200 rounded-lg px-2 py-1 bg-white disabled:opacity-50"
+            >
+              {(Object.keys(ERROR_KIND_LABELS) as MockErrorKind[]).map((kind) => (
+                <option key={kind} value={kind}>{ERROR_KIND_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={onReset}
+            className="w-full text-amber-700 py-1 rounded-lg active:bg-amber-100"
+          >
+            清空演示数据（会话记录）
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+
+// 转录修正的同步状态：local 表示没有对应的服务器消息，只在本地修改
+export type TranscriptCorrectionStatus = 'saving' | 'saved' | 'failed' | 'local'
+
+interface EditableTranscriptProps {
+  text: string
+  originalText?: string // 修正前的识别原文
+  status?: TranscriptCorrectionStatus
+  error?: string
+  editable?: boolean
+  onSave: (text: string) => void
+  className?: string // 文本样式
+}
+
+const STATUS_LABELS: Record<Exclude<TranscriptCorrectionStatus, 'failed'>, string> = {
+  saving: '同步中…',
+  saved: '已修正',
+  local: '已修正（仅本地）',
+}
+
+export function EditableTranscript({
+  text,
+  originalText,
+  status,
+  error,
+  editable = true,
+  onSave,
+  className = 'text-sm text-gray-800',
+}: EditableTranscriptProps) {
+  const [draft, setDraft] = useState<string | null>(null) // 编辑中的文本
+
+  const save = () => {
+    const corrected = draft?.trim() ?? ''
+    setDraft(null)
+    if (corrected && corrected !== text) {
+      onSave(corrected)
+    }
+  }
+
+  if (draft !== null) {
+    return (
+      <div className="space-y-1">
+        <textarea
+          value={draft}
+          autoFocus
+          rows={Math.min(6, Math.max(2, Math.ceil(draft.length / 24)))}
+          onChange={(e) => {
+            setDraft(e.target.value)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault()
+              save()
+            } else if (e.key === 'Escape') {
+              setDraft(null)
+            }
+          }}
+          className="w-full text-sm border border-blue-300 rounded-lg px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-blue-200"
+        />
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => {
+              setDraft(null)
+            }}
+            className="text-xs px-2 py-1 rounded-lg text-gray-500 active:bg-gray-100"
+          >
+            取消
+          </button>
+          <button onClick={save} className="text-xs px-2 py-1 rounded-lg bg-blue-500 text-white active:bg-blue-600">
+            保存
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const isCorrected = originalText !== undefined && originalText !== text
+
+  return (
+    <div className="group">
+      <p className={className}>
+        {text}
+        {editable && (
+          <button
+            onClick={() => {
+              setDraft(text)
+            }}
+            className="ml-1 text-xs text-gray-400 hover:text-blue-600 opacity-60 group-hover:opacity-100"
+            title="修正识别错误"
+          >
+            ✎
+          </button>
+        )}
+      </p>
+      {isCorrected && (
+        <p className="text-xs text-gray-400 mt-0.5">
+          <span className="line-through">{originalText}</span>
+          {status === 'failed' ? (
+            <button
+              onClick={() => {
+                onSave(text)
+              }}
+              className="ml-1 text-red-500"
+              title={error}
+            >
+              同步失败 · 重试
+            </button>
+          ) : (
+            status && <span className="ml-1">{STATUS_LABELS[status]}</span>
+          )}
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,35 @@
+import { AudioInputDevice } from '../hooks/useAudioInputDevices'
+
+interface MicrophoneSelectProps {
+  devices: AudioInputDevice[]
+  value: string | null // null 表示系统默认设备
+  onChange: (deviceId: string | null) => void
+  activeLabel?: string // 录音中实际使用的设备（所选设备断开后会自动切换）
+  className?: string
+}
+
+export function MicrophoneSelect({ devices, value, onChange, activeLabel, className = '' }: MicrophoneSelectProps) {
+  const selected = devices.find((device) => device.deviceId === value)
+  // 所选设备未接入时仍显示在列表中，避免选择被悄悄改掉
+  const options = value && !selected ? [...devices, { deviceId: value, label: '上次选择的麦克风（未接入）' }] : devices
+
+  return (
+    <div className={className}>
+      <select
+        value={value ?? ''}
+        onChange={(e) => {
+          onChange(e.target.value || null)
+        }}
+        className="w-full border border-gray-200 rounded-lg px-2 py-1 text-sm bg-white text-gray-600"
+      >
+        <option value="">系统默认麦克风</option>
+        {options.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>{device.label}</option>
+        ))}
+      </select>
+      {activeLabel && activeLabel !== selected?.label && (
+        <p className={`text-xs mt-1 truncate ${value ? 'text-amber-600' : 'text-gray-400'}`}>当前使用：{activeLabel}</p>
+      )}
+    </div>
+  )
+}
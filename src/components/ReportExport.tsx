@@ -0,0 +1,55 @@
+import { ConsultationReport, downloadReport, printReport } from '../report/consultationReport'
+import { downloadFhirBundle, FhirValidationError } from '../report/fhir'
+
+interface ReportExportProps {
+  getReport: () => ConsultationReport // 点击时生成，保证内容为最新
+  inProgress?: boolean // 问诊尚未结束
+  className?: string
+}
+
+export function ReportExport({ getReport, inProgress = false, className = '' }: ReportExportProps) {
+  const exportFhir = () => {
+    try {
+      downloadFhirBundle(getReport(), { inProgress })
+    } catch (error) {
+      if (!(error instanceof FhirValidationError)) throw error
+      console.error('[报告] ✗ FHIR Bundle 校验失败:', error.issues)
+      alert(`FHIR 导出失败，Bundle 未通过校验：\n${error.issues.join('\n')}`)
+    }
+  }
+
+  const buttonClass = 'flex-1 text-sm py-2 rounded-xl bg-blue-50 text-blue-600 font-medium active:bg-blue-100'
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <button
+        onClick={() => {
+          downloadReport(getReport(), 'markdown')
+        }}
+        className={buttonClass}
+      >
+        Markdown
+      </button>
+      <button
+        onClick={() => {
+          downloadReport(getReport(), 'html')
+        }}
+        className={buttonClass}
+      >
+        HTML
+      </button>
+      <button
+        onClick={() => {
+          printReport(getReport())
+        }}
+        className={buttonClass}
+        title="在打印对话框中选择“另存为 PDF”"
+      >
+        打印 / PDF
+      </button>
+      <button onClick={exportFhir} className={buttonClass} title="导出为 FHIR R4 Bundle（JSON）">
+        FHIR
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react'
+import { SymptomVerdict } from '../api/consultation'
+import { SymptomBoardEntry, SYMPTOM_VERDICT_STYLES } from '../hooks/useSymptomBoard'
+
+const VERDICTS: SymptomVerdict[] = ['confirmed', 'rejected', 'uncertain']
+
+const NOTE_MAX_LENGTH = 200
+
+type SortKey = 'confidence' | 'mentions' | 'recent' | 'first'
+
+const SORT_OPTIONS: { key: SortKey; label: string }[] = [
+  { key: 'confidence', label: '置信度' },
+  { key: 'mentions', label: '提及次数' },
+  { key: 'recent', label: '最近提及' },
+  { key: 'first', label: '首次提及' },
+]
+
+const COMPARATORS: Record<SortKey, (a: SymptomBoardEntry, b: SymptomBoardEntry) => number> = {
+  confidence: (a, b) => b.peakConfidence - a.peakConfidence,
+  mentions: (a, b) => b.mentions - a.mentions || b.peakConfidence - a.peakConfidence,
+  recent: (a, b) => b.lastMentionedAt - a.lastMentionedAt,
+  first: (a, b) => a.firstMentionedAt - b.firstMentionedAt,
+}
+
+interface SymptomBoardProps {
+  entries: SymptomBoardEntry[]
+  messages: { id: string; content: string }[] // 用于显示症状来源的转录消息
+  onSelectMessage?: (messageId: string) => void
+  onFeedback?: (cui: string, verdict: SymptomVerdict, note: string) => void // 提交医生的判断
+}
+
+// 摘录消息开头作为来源链接文字
+function excerpt(text: string, length = 12): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+export function SymptomBoard({ entries, messages, onSelectMessage, onFeedback }: SymptomBoardProps) {
+  const [sortKey, setSortKey] = useState<SortKey>('confidence')
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [noteDrafts, setNoteDrafts] = useState<Record<string, string>>({}) // 尚未提交的备注
+
+  const sorted = useMemo(() => [...entries].sort(COMPARATORS[sortKey]), [entries, sortKey])
+  const messageById = useMemo(() => new Map(messages.map((m) => [m.id, m])), [messages])
+  const allCollapsed = entries.length > 0 && entries.every((entry) => collapsed.has(entry.cui))
+
+  const toggleEntry = (cui: string) => {
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(cui)) {
+        next.delete(cui)
+      } else {
+        next.add(cui)
+      }
+      return next
+    })
+  }
+
+  const noteOf = (entry: SymptomBoardEntry) =>
+    (noteDrafts[entry.cui] as string | undefined) ?? entry.feedback?.note ?? ''
+
+  const submitFeedback = (entry: SymptomBoardEntry, verdict: SymptomVerdict) => {
+    onFeedback?.(entry.cui, verdict, noteOf(entry).trim())
+    setNoteDrafts((prev) => Object.fromEntries(Object.entries(prev).filter(([cui]) => cui !== entry.cui)))
+  }
+
+  const toggleAll = () => {
+    setCollapsed(allCollapsed ? new Set() : new Set(entries.map((entry) => entry.cui)))
+  }
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <span className="text-lg">🔍</span>
+          识别的症状
+          <span className="text-xs text-gray-400 font-normal">({entries.length})</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={sortKey}
+            onChange={(e) => {
+              setSortKey(e.target.value as SortKey)
+            }}
+            className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-600"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option.key} value={option.key}>按{option.label}</option>
+            ))}
+          </select>
+          <button onClick={toggleAll} className="text-xs text-blue-600">
+            {allCollapsed ? '全部展开' : '全部折叠'}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {sorted.map((entry) => {
+          const isCollapsed = collapsed.has(entry.cui)
+          const { feedback } = entry
+          const canSubmit = onFeedback !== undefined && entry.serverMessageIds.length > 0
+          const note = noteOf(entry)
+          return (
+            <div key={entry.cui} className="bg-blue-50 rounded-xl p-3">
+              <button
+                onClick={() => {
+                  toggleEntry(entry.cui)
+                }}
+                className="w-full flex items-center justify-between text-left"
+              >
+                <span className="flex items-center gap-1 font-medium text-gray-900">
+                  <span className="text-xs text-gray-400">{isCollapsed ? '▸' : '▾'}</span>
+                  {entry.summary}
+                  {entry.mentions > 1 && (
+                    <span className="text-xs text-gray-500 font-normal">×{entry.mentions}</span>
+                  )}
+                  {feedback && (
+                    <span className={`text-xs px-1.5 py-0.5 rounded font-normal ${SYMPTOM_VERDICT_STYLES[feedback.verdict].className}`}>
+                      {SYMPTOM_VERDICT_STYLES[feedback.verdict].label}
+                    </span>
+                  )}
+                </span>
+                <span className="text-sm text-blue-600 font-medium" title={`最近一次: ${Math.round(entry.lastConfidence * 100)}%`}>
+                  {Math.round(entry.peakConfidence * 100)}%
+                </span>
+              </button>
+
+              {!isCollapsed && (
+                <div className="mt-1 pl-4">
+                  <p className="text-xs text-gray-500">{entry.description}</p>
+                  {entry.messageIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {entry.messageIds.map((messageId) => {
+                        const message = messageById.get(messageId)
+                        if (!message) return null
+                        return (
+                          <button
+                            key={messageId}
+                            onClick={() => onSelectMessage?.(messageId)}
+                            className="text-xs px-2 py-0.5 rounded-full bg-white text-blue-600 hover:bg-blue-100"
+                            title={message.content}
+                          >
+                            “{excerpt(message.content)}”
+                          </button>
+                        )
+                      })}
+                    </div>
+                  )}
+
+                  {/* 医生反馈 */}
+                  {onFeedback && (
+                    <div className="mt-3 pt-2 border-t border-blue-100 space-y-2">
+                      <div className="flex items-center gap-1">
+                        {VERDICTS.map((verdict) => (
+                          <button
+                            key={verdict}
+                            disabled={!canSubmit || feedback?.status === 'saving'}
+                            onClick={() => {
+                              submitFeedback(entry, verdict)
+                            }}
+                            className={`text-xs px-2 py-1 rounded-lg transition-colors disabled:opacity-50 ${
+                              feedback?.verdict === verdict
+                                ? SYMPTOM_VERDICT_STYLES[verdict].className
+                                : 'bg-white text-gray-600'
+                            }`}
+                          >
+                            {SYMPTOM_VERDICT_STYLES[verdict].label}
+                          </button>
+                        ))}
+                        <span className="ml-auto text-xs text-gray-400">
+                          {feedback?.status === 'saving' && '保存中…'}
+                          {feedback?.status === 'saved' && '已保存'}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <input
+                          value={note}
+                          maxLength={NOTE_MAX_LENGTH}
+                          disabled={!canSubmit}
+                          placeholder="备注（可选）"
+                          onChange={(e) => {
+                            setNoteDrafts((prev) => ({ ...prev, [entry.cui]: e.target.value }))
+                          }}
+                          className="flex-1 min-w-0 text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white disabled:opacity-50"
+                        />
+                        {feedback && entry.cui in noteDrafts && (
+                          <button
+                            disabled={feedback.status === 'saving'}
+                            onClick={() => {
+                              submitFeedback(entry, feedback.verdict)
+                            }}
+                            className="text-xs px-2 py-1 rounded-lg bg-blue-500 text-white disabled:opacity-50"
+                          >
+                            保存备注
+                          </button>
+                        )}
+                      </div>
+                      {!canSubmit && (
+                        <p className="text-xs text-gray-400">该症状尚未关联服务器消息，暂不能提交反馈</p>
+                      )}
+                      {feedback?.status === 'failed' && (
+                        <p className="text-xs text-red-600">反馈提交失败：{feedback.error}</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,81 @@
+import { useState } from 'react'
+import { Speaker, SPEAKER_LABELS } from '../audio/speaker'
+
+interface TextConsultationInputProps {
+  onSubmit: (text: string, speaker: Speaker) => Promise<void> // 失败时抛出错误，保留输入内容
+  disabled?: boolean
+}
+
+const MAX_LENGTH = 1000
+
+// 文字输入：患者无法说话、环境嘈杂或麦克风故障时使用
+export function TextConsultationInput({ onSubmit, disabled = false }: TextConsultationInputProps) {
+  const [text, setText] = useState('')
+  const [speaker, setSpeaker] = useState<Speaker>('patient')
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const submit = async () => {
+    const trimmed = text.trim()
+    if (!trimmed || isSending) return
+    setIsSending(true)
+    setError(null)
+    try {
+      await onSubmit(trimmed, speaker)
+      setText('')
+    } catch (err) {
+      setError((err as Error).message)
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm p-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-900 flex items-center gap-2">
+          <span className="text-lg">⌨️</span>
+          文字输入
+        </h3>
+        <select
+          value={speaker}
+          onChange={(e) => {
+            setSpeaker(e.target.value as Speaker)
+          }}
+          className="text-xs border border-gray-200 rounded-lg px-2 py-1 bg-white text-gray-600"
+        >
+          {(Object.keys(SPEAKER_LABELS) as Speaker[]).map((value) => (
+            <option key={value} value={value}>{SPEAKER_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex items-end gap-2">
+        <textarea
+          value={text}
+          maxLength={MAX_LENGTH}
+          rows={2}
+          disabled={disabled}
+          placeholder="无法语音时在此输入症状描述，Enter 发送，Shift+Enter 换行"
+          onChange={(e) => {
+            setText(e.target.value)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault()
+              void submit()
+            }
+          }}
+          className="flex-1 text-sm border border-gray-200 rounded-xl px-3 py-2 resize-none focus:outline-none focus:ring-2 focus:ring-blue-200 disabled:opacity-50"
+        />
+        <button
+          onClick={() => void submit()}
+          disabled={disabled || isSending || !text.trim()}
+          className="px-4 py-2 bg-blue-500 text-white rounded-xl text-sm font-medium active:bg-blue-600 disabled:opacity-50"
+        >
+          {isSending ? '发送中…' : '发送'}
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">发送失败：{error}</p>}
+    </section>
+  )
+}
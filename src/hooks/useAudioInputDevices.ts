@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from 'react'
+import { AudioInputDevice, listAudioInputs } from '../audio/inputDevices'
+
+export type { AudioInputDevice } from '../audio/inputDevices'
+
+// 麦克风列表与选择：选择保存在本地，下次打开时沿用
+
+interface AudioInputDevicesReturn {
+  devices: AudioInputDevice[]
+  selectedDeviceId: string | null // null 表示使用系统默认设备
+  selectDevice: (deviceId: string | null) => void
+  refresh: () => Promise<void> // 获得麦克风权限后调用，以取得设备名称
+}
+
+const STORAGE_KEY = 'medi-bridge:audio-input-device'
+
+function loadSelectedDevice(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function useAudioInputDevices(): AudioInputDevicesReturn {
+  const [devices, setDevices] = useState<AudioInputDevice[]>([])
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(loadSelectedDevice)
+
+  const refresh = useCallback(async () => {
+    try {
+      setDevices(await listAudioInputs())
+    } catch (error) {
+      console.warn('[麦克风] 无法获取设备列表:', error)
+    }
+  }, [])
+
+  // 插拔设备时更新列表
+  useEffect(() => {
+    // 非安全上下文（HTTP）下没有 mediaDevices
+    if (!('mediaDevices' in navigator)) return
+    const handleDeviceChange = () => {
+      void refresh()
+    }
+    handleDeviceChange()
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange)
+    return () => {
+      navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange)
+    }
+  }, [refresh])
+
+  const selectDevice = useCallback((deviceId: string | null) => {
+    setSelectedDeviceId(deviceId)
+    try {
+      if (deviceId) {
+        localStorage.setItem(STORAGE_KEY, deviceId)
+      } else {
+        localStorage.removeItem(STORAGE_KEY)
+      }
+    } catch {
+      // 隐私模式等情况下无法保存，仅本次生效
+    }
+  }, [])
+
+  return { devices, selectedDeviceId, selectDevice, refresh }
+}
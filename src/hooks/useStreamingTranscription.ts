@@ -0,0 +1,257 @@
+import { useRef, useCallback, useEffect, useState } from 'react'
+import {
+  buildStreamingUrl,
+  floatTo16BitBuffer,
+  STREAMING_SAMPLE_RATE,
+  StreamingClientMessage,
+  StreamingFinalResult,
+  StreamingServerMessage,
+} from '../api/streaming'
+import { Speaker } from '../audio/speaker'
+
+export type StreamingStatus = 'idle' | 'connecting' | 'open' | 'closed'
+
+interface StreamingTranscriptionOptions {
+  onPartial: (segmentId: number, text: string) => void
+  onFinal: (result: StreamingFinalResult) => void
+  onFallback: (segmentId: number) => void // 片段未能通过流式得到结果，需要走批量上传
+}
+
+interface StreamingTranscriptionReturn {
+  connect: (conversationId: number) => Promise<boolean>
+  disconnect: () => void
+  pushFrame: (frame: Float32Array) => void
+  startSegment: () => void
+  endSegment: (speaker?: Speaker) => number | null // 返回片段 ID，未能流式发送时返回 null
+  cancelSegment: () => void
+  status: StreamingStatus
+}
+
+// 连接超时
+const CONNECT_TIMEOUT = 5000
+// 片段结束后等待最终结果的时间，超时后回退到批量上传
+const FINAL_RESULT_TIMEOUT = 15000
+// 说话开始前缓存的音频（说话检测有延迟，需要补发开头）
+const MAX_BUFFERED_SAMPLES = STREAMING_SAMPLE_RATE * 10
+
+export function useStreamingTranscription({
+  onPartial,
+  onFinal,
+  onFallback,
+}: StreamingTranscriptionOptions): StreamingTranscriptionReturn {
+  const [status, setStatus] = useState<StreamingStatus>('idle')
+
+  const socketRef = useRef<WebSocket | null>(null)
+  const nextSegmentIdRef = useRef(1)
+  const activeSegmentIdRef = useRef<number | null>(null) // 正在发送音频的片段
+  const bufferedFramesRef = useRef<Float32Array[]>([]) // 当前片段开始前的音频
+  const bufferedSamplesRef = useRef(0)
+  const pendingFinalsRef = useRef(new Map<number, number>()) // 片段 ID → 超时定时器
+
+  const onPartialRef = useRef(onPartial)
+  const onFinalRef = useRef(onFinal)
+  const onFallbackRef = useRef(onFallback)
+  onPartialRef.current = onPartial
+  onFinalRef.current = onFinal
+  onFallbackRef.current = onFallback
+
+  const send = useCallback((message: StreamingClientMessage | ArrayBuffer): boolean => {
+    const socket = socketRef.current
+    if (!socket || socket.readyState !== WebSocket.OPEN) return false
+    socket.send(message instanceof ArrayBuffer ? message : JSON.stringify(message))
+    return true
+  }, [])
+
+  // 等待中的片段全部回退到批量上传
+  const fallbackPendingSegments = useCallback(() => {
+    for (const [segmentId, timer] of pendingFinalsRef.current) {
+      clearTimeout(timer)
+      console.warn(`[流式] 片段 ${segmentId} 未收到最终结果，回退到批量上传`)
+      onFallbackRef.current(segmentId)
+    }
+    pendingFinalsRef.current.clear()
+  }, [])
+
+  const handleMessage = useCallback((event: MessageEvent) => {
+    if (typeof event.data !== 'string') return
+
+    let message: StreamingServerMessage
+    try {
+      message = JSON.parse(event.data) as StreamingServerMessage
+    } catch {
+      console.warn('[流式] 无法解析服务器消息:', event.data)
+      return
+    }
+
+    switch (message.type) {
+      case 'partial':
+        onPartialRef.current(message.segment_id, message.text)
+        break
+      case 'final': {
+        const timer = pendingFinalsRef.current.get(message.segment_id)
+        if (timer !== undefined) {
+          clearTimeout(timer)
+          pendingFinalsRef.current.delete(message.segment_id)
+        }
+        console.log(`[流式] ✓ 片段 ${message.segment_id} 最终结果:`, message.text)
+        onFinalRef.current(message)
+        break
+      }
+      case 'error': {
+        console.error('[流式] ✗ 服务器错误:', message.message)
+        // 片段级错误：该片段回退到批量上传
+        const segmentId = message.segment_id
+        if (segmentId !== undefined && pendingFinalsRef.current.has(segmentId)) {
+          clearTimeout(pendingFinalsRef.current.get(segmentId))
+          pendingFinalsRef.current.delete(segmentId)
+          onFallbackRef.current(segmentId)
+        }
+        break
+      }
+    }
+  }, [])
+
+  // 建立连接，失败时返回 false（调用方使用批量上传）
+  const connect = useCallback((conversationId: number): Promise<boolean> => {
+    socketRef.current?.close()
+    setStatus('connecting')
+
+    return new Promise((resolve) => {
+      const socket = new WebSocket(buildStreamingUrl(conversationId))
+      socket.binaryType = 'arraybuffer'
+      socketRef.current = socket
+
+      const timer = setTimeout(() => {
+        console.warn('[流式] ✗ 连接超时')
+        socket.close()
+        resolve(false)
+      }, CONNECT_TIMEOUT)
+
+      socket.onopen = () => {
+        clearTimeout(timer)
+        console.log('[流式] ✓ 已连接:', socket.url)
+        setStatus('open')
+        resolve(true)
+      }
+
+      socket.onmessage = handleMessage
+
+      socket.onerror = () => {
+        console.error('[流式] ✗ 连接错误')
+      }
+
+      socket.onclose = () => {
+        clearTimeout(timer)
+        if (socketRef.current !== socket) return
+        console.warn('[流式] 连接已关闭')
+        socketRef.current = null
+        activeSegmentIdRef.current = null
+        setStatus('closed')
+        fallbackPendingSegments()
+        resolve(false)
+      }
+    })
+  }, [handleMessage, fallbackPendingSegments])
+
+  const disconnect = useCallback(() => {
+    const socket = socketRef.current
+    socketRef.current = null
+    socket?.close()
+    activeSegmentIdRef.current = null
+    bufferedFramesRef.current = []
+    bufferedSamplesRef.current = 0
+    fallbackPendingSegments()
+    setStatus('idle')
+  }, [fallbackPendingSegments])
+
+  // 接收录音数据：片段进行中直接发送，否则缓存以便补发片段开头
+  const pushFrame = useCallback((frame: Float32Array) => {
+    if (activeSegmentIdRef.current !== null) {
+      send(floatTo16BitBuffer(frame))
+      return
+    }
+
+    bufferedFramesRef.current.push(frame)
+    bufferedSamplesRef.current += frame.length
+    while (bufferedSamplesRef.current > MAX_BUFFERED_SAMPLES && bufferedFramesRef.current.length > 1) {
+      const dropped = bufferedFramesRef.current.shift()
+      bufferedSamplesRef.current -= dropped?.length ?? 0
+    }
+  }, [send])
+
+  const clearBuffer = useCallback(() => {
+    bufferedFramesRef.current = []
+    bufferedSamplesRef.current = 0
+  }, [])
+
+  // 检测到说话：开始新片段并补发缓存的音频
+  const startSegment = useCallback(() => {
+    if (activeSegmentIdRef.current !== null) return
+
+    const segmentId = nextSegmentIdRef.current++
+    if (!send({ type: 'start', segment_id: segmentId, sample_rate: STREAMING_SAMPLE_RATE })) {
+      return
+    }
+
+    activeSegmentIdRef.current = segmentId
+    for (const frame of bufferedFramesRef.current) {
+      send(floatTo16BitBuffer(frame))
+    }
+    clearBuffer()
+    console.log(`[流式] ▶ 片段 ${segmentId} 开始`)
+  }, [send, clearBuffer])
+
+  // 说话结束：请求最终结果
+  const endSegment = useCallback((speaker?: Speaker): number | null => {
+    const segmentId = activeSegmentIdRef.current
+    activeSegmentIdRef.current = null
+    clearBuffer()
+
+    if (segmentId === null || !send({ type: 'end', segment_id: segmentId, speaker })) {
+      return null
+    }
+
+    const timer = window.setTimeout(() => {
+      pendingFinalsRef.current.delete(segmentId)
+      console.warn(`[流式] ✗ 片段 ${segmentId} 等待结果超时，回退到批量上传`)
+      onFallbackRef.current(segmentId)
+    }, FINAL_RESULT_TIMEOUT)
+    pendingFinalsRef.current.set(segmentId, timer)
+
+    console.log(`[流式] ◆ 片段 ${segmentId} 结束，等待最终结果`)
+    return segmentId
+  }, [send, clearBuffer])
+
+  // 片段过短被丢弃
+  const cancelSegment = useCallback(() => {
+    const segmentId = activeSegmentIdRef.current
+    activeSegmentIdRef.current = null
+    clearBuffer()
+    if (segmentId !== null) {
+      send({ type: 'cancel', segment_id: segmentId })
+    }
+  }, [send, clearBuffer])
+
+  useEffect(() => {
+    const pendingFinals = pendingFinalsRef.current
+    return () => {
+      const socket = socketRef.current
+      socketRef.current = null
+      socket?.close()
+      for (const timer of pendingFinals.values()) {
+        clearTimeout(timer)
+      }
+      pendingFinals.clear()
+    }
+  }, [])
+
+  return {
+    connect,
+    disconnect,
+    pushFrame,
+    startSegment,
+    endSegment,
+    cancelSegment,
+    status,
+  }
+}
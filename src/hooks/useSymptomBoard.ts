@@ -0,0 +1,159 @@
+import { useCallback, useMemo, useState } from 'react'
+import { SymptomMatch, SymptomVerdict } from '../api/consultation'
+
+// 医生判断的标签与样式
+export const SYMPTOM_VERDICT_STYLES: Record<SymptomVerdict, { label: string; className: string }> = {
+  confirmed: { label: '✓ 确认', className: 'bg-green-100 text-green-700' },
+  rejected: { label: '✗ 排除', className: 'bg-red-100 text-red-700' },
+  uncertain: { label: '? 不确定', className: 'bg-amber-100 text-amber-700' },
+}
+
+// 医生对看板条目的判断及其提交状态
+export interface SymptomBoardFeedback {
+  verdict: SymptomVerdict
+  note: string
+  status: 'saving' | 'saved' | 'failed'
+  error?: string
+}
+
+// 一次匹配记录
+export interface SymptomMention {
+  messageId?: string // 本地转录消息 ID
+  serverMessageId?: number
+  confidence: number
+  mentionedAt: number
+}
+
+// 症状看板条目（按 cui 合并整个问诊过程中的匹配结果）
+export interface SymptomBoardEntry {
+  cui: string
+  summary: string
+  description: string
+  history: SymptomMention[] // 全部匹配记录，下列统计字段由它计算
+  peakConfidence: number // 历次匹配中的最高置信度
+  lastConfidence: number // 最近一次匹配的置信度
+  mentions: number // 被匹配到的次数
+  messageIds: string[] // 产生该匹配的转录消息
+  serverMessageIds: number[] // 产生该匹配的服务器消息 ID，用于提交反馈
+  firstMentionedAt: number
+  lastMentionedAt: number
+  feedback?: SymptomBoardFeedback
+}
+
+// 一次匹配结果的来源
+export interface SymptomSource {
+  messageId?: string // 本地转录消息 ID
+  serverMessageId?: number
+  mentionedAt?: number // 默认为当前时间
+}
+
+interface SymptomBoardReturn {
+  entries: SymptomBoardEntry[] // 按首次提及的顺序
+  addMatches: (matches: SymptomMatch[], source?: SymptomSource) => void
+  // 用新的匹配结果替换某条消息之前的结果（如转录修正后重新匹配）
+  replaceMessageMatches: (messageId: string, matches: SymptomMatch[], source?: SymptomSource) => void
+  setFeedback: (cui: string, feedback: SymptomBoardFeedback) => void
+  restore: (entries: SymptomBoardEntry[]) => void // 用已有条目替换看板（如导入存档）
+  reset: () => void
+}
+
+// 追加不重复的元素
+function appendUnique<T>(items: T[], item: T | undefined): T[] {
+  return item === undefined || items.includes(item) ? items : [...items, item]
+}
+
+// 由匹配记录计算条目的统计字段
+function withHistory(entry: Pick<SymptomBoardEntry, 'cui' | 'summary' | 'description' | 'feedback'>, history: SymptomMention[]): SymptomBoardEntry {
+  const last = history[history.length - 1]
+  return {
+    ...entry,
+    history,
+    peakConfidence: Math.max(...history.map((mention) => mention.confidence)),
+    lastConfidence: last.confidence,
+    mentions: history.length,
+    messageIds: history.reduce<string[]>((ids, mention) => appendUnique(ids, mention.messageId), []),
+    serverMessageIds: history.reduce<number[]>((ids, mention) => appendUnique(ids, mention.serverMessageId), []),
+    firstMentionedAt: Math.min(...history.map((mention) => mention.mentionedAt)),
+    lastMentionedAt: Math.max(...history.map((mention) => mention.mentionedAt)),
+  }
+}
+
+/**
+ * 将一次识别结果合并进看板
+ */
+export function mergeSymptomMatches(
+  board: Record<string, SymptomBoardEntry>,
+  matches: SymptomMatch[],
+  { messageId, serverMessageId, mentionedAt = Date.now() }: SymptomSource,
+): Record<string, SymptomBoardEntry> {
+  const next = { ...board }
+  for (const match of matches) {
+    const existing = next[match.cui] as SymptomBoardEntry | undefined
+    const mention: SymptomMention = { messageId, serverMessageId, confidence: match.confidence_score, mentionedAt }
+    next[match.cui] = existing
+      ? withHistory(existing, [...existing.history, mention])
+      : withHistory({ cui: match.cui, summary: match.summary, description: match.full_description }, [mention])
+  }
+  return next
+}
+
+/**
+ * 移除某条消息产生的匹配记录，没有剩余记录的条目一并移除
+ */
+export function removeMessageMatches(
+  board: Record<string, SymptomBoardEntry>,
+  messageId: string,
+): Record<string, SymptomBoardEntry> {
+  const next: Record<string, SymptomBoardEntry> = {}
+  for (const entry of Object.values(board)) {
+    const history = entry.history.filter((mention) => mention.messageId !== messageId)
+    if (history.length === entry.history.length) {
+      next[entry.cui] = entry
+    } else if (history.length > 0) {
+      next[entry.cui] = withHistory(entry, history)
+    }
+  }
+  return next
+}
+
+export function useSymptomBoard(): SymptomBoardReturn {
+  const [board, setBoard] = useState<Record<string, SymptomBoardEntry>>({})
+
+  const addMatches = useCallback((matches: SymptomMatch[], source: SymptomSource = {}) => {
+    if (matches.length === 0) return
+    const mentionedAt = source.mentionedAt ?? Date.now()
+    setBoard((prev) => mergeSymptomMatches(prev, matches, { ...source, mentionedAt }))
+  }, [])
+
+  const replaceMessageMatches = useCallback((messageId: string, matches: SymptomMatch[], source: SymptomSource = {}) => {
+    const mentionedAt = source.mentionedAt ?? Date.now()
+    setBoard((prev) => {
+      const next = mergeSymptomMatches(removeMessageMatches(prev, messageId), matches, { ...source, messageId, mentionedAt })
+      // 条目被移除后又重新匹配到时，保留医生之前的判断
+      for (const entry of Object.values(next)) {
+        const feedback = (prev[entry.cui] as SymptomBoardEntry | undefined)?.feedback
+        if (feedback && !entry.feedback) next[entry.cui] = { ...entry, feedback }
+      }
+      return next
+    })
+  }, [])
+
+  const setFeedback = useCallback((cui: string, feedback: SymptomBoardFeedback) => {
+    setBoard((prev) => {
+      const entry = prev[cui] as SymptomBoardEntry | undefined
+      return entry ? { ...prev, [cui]: { ...entry, feedback } } : prev
+    })
+  }, [])
+
+  const restore = useCallback((entries: SymptomBoardEntry[]) => {
+    setBoard(Object.fromEntries(entries.map((entry) => [entry.cui, entry])))
+  }, [])
+
+  const reset = useCallback(() => {
+    setBoard({})
+  }, [])
+
+  const entries = useMemo(() => Object.values(board), [board])
+
+  return { entries, addMatches, replaceMessageMatches, setFeedback, restore, reset }
+}
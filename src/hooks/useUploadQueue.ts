@@ -0,0 +1,290 @@
+import { useRef, useCallback, useEffect, useState } from 'react'
+import { uploadAudio, isApiError, VoiceConsultationResponse } from '../api/consultation'
+import {
+  UploadQueueItem,
+  putQueueItem,
+  deleteQueueItem,
+  getAllQueueItems,
+} from '../api/uploadQueue'
+import { AudioFormat, DEFAULT_AUDIO_FORMAT, getAudioFilename } from '../audio/encoders'
+import { Speaker } from '../audio/speaker'
+
+interface UploadQueueOptions {
+  onUploaded: (item: UploadQueueItem, result: VoiceConsultationResponse) => void
+  onFailed?: (item: UploadQueueItem, error: Error) => void
+  onStatusChange?: (item: UploadQueueItem) => void
+}
+
+interface EnqueueOptions {
+  clipId?: string
+  seq: number
+  audioFormat: AudioFormat
+  speaker?: Speaker
+  continuesPrevious?: boolean
+}
+
+interface UploadQueueReturn {
+  enqueue: (blob: Blob, conversationId: number, options: EnqueueOptions) => Promise<UploadQueueItem>
+  retryFailed: () => Promise<void>
+  discardFailed: () => Promise<UploadQueueItem[]> // 放弃失败的片段，返回被放弃的条目
+  queuedCount: number
+  failedCount: number
+  blockedCount: number // 排在失败片段之后、暂停上传的片段数
+  isOnline: boolean
+}
+
+// 重试配置
+const MAX_ATTEMPTS = 5 // 在线状态下连续失败 5 次后标记为失败，需手动重试
+const BASE_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+// 指数退避，附带少量抖动避免多个片段同时重试
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** attempts, MAX_RETRY_DELAY)
+  return delay + Math.random() * 500
+}
+
+export function useUploadQueue({ onUploaded, onFailed, onStatusChange }: UploadQueueOptions): UploadQueueReturn {
+  const [queuedCount, setQueuedCount] = useState(0)
+  const [failedCount, setFailedCount] = useState(0)
+  const [blockedCount, setBlockedCount] = useState(0)
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+
+  const isProcessingRef = useRef(false)
+  const rerunRequestsRef = useRef(0) // 处理中收到的入队、重试等请求次数，有新请求时需重新读取队列
+  const retryTimerRef = useRef<number>()
+  const abortControllerRef = useRef<AbortController | null>(null) // 卸载时取消进行中的上传
+
+  // 回调使用 ref 保存，避免队列循环中使用过期的闭包
+  const onUploadedRef = useRef(onUploaded)
+  const onFailedRef = useRef(onFailed)
+  const onStatusChangeRef = useRef(onStatusChange)
+  onUploadedRef.current = onUploaded
+  onFailedRef.current = onFailed
+  onStatusChangeRef.current = onStatusChange
+
+  // 持久化条目并通知状态变化
+  const saveItem = useCallback(async (item: UploadQueueItem) => {
+    await putQueueItem(item)
+    onStatusChangeRef.current?.(item)
+  }, [])
+
+  const updateCounts = useCallback((items: UploadQueueItem[]) => {
+    const blockedConversations = new Set(items.filter((item) => item.status === 'failed').map((item) => item.conversationId))
+    setQueuedCount(items.filter((item) => item.status !== 'failed').length)
+    setFailedCount(items.filter((item) => item.status === 'failed').length)
+    setBlockedCount(items.filter((item) => item.status !== 'failed' && blockedConversations.has(item.conversationId)).length)
+  }, [])
+
+  // 上传单个条目，返回是否成功
+  const uploadItem = useCallback(async (item: UploadQueueItem): Promise<boolean> => {
+    await saveItem({ ...item, status: 'uploading' })
+
+    try {
+      console.log(`[队列] → 上传片段 ${item.id} (${(item.blob.size / 1024).toFixed(2)}KB), 会话ID: ${item.conversationId}, 第 ${item.attempts + 1} 次尝试`)
+      const audioFormat = item.audioFormat ?? DEFAULT_AUDIO_FORMAT
+      const result = await uploadAudio(item.blob, item.conversationId, {
+        signal: abortControllerRef.current?.signal,
+        audioFormat,
+        filename: getAudioFilename(audioFormat),
+        speaker: item.speaker,
+      })
+      await deleteQueueItem(item.id)
+      console.log(`[队列] ✓ 片段 ${item.id} 上传成功`)
+      onUploadedRef.current(item, result)
+      return true
+    } catch (error) {
+      const message = (error as Error).message
+      const now = Date.now()
+
+      // 页面卸载导致的取消：放回队列，下次启动时继续
+      if (isApiError(error) && error.kind === 'aborted') {
+        await saveItem({ ...item, status: 'queued' })
+        return false
+      }
+
+      // 服务器拒绝（如音频无法识别），重试无效，直接标记为失败
+      if (isApiError(error) && !error.retryable) {
+        console.error(`[队列] ✗ 服务器拒绝片段 ${item.id} (HTTP ${error.status}):`, error.detail)
+        const failedItem: UploadQueueItem = { ...item, status: 'failed', attempts: item.attempts + 1, lastError: message, rejected: true }
+        await saveItem(failedItem)
+        onFailedRef.current?.(failedItem, error)
+        return false
+      }
+
+      // 离线或网络不通时不计入失败次数，等待网络恢复后继续
+      if (!navigator.onLine || (isApiError(error) && error.kind === 'network')) {
+        console.warn(`[队列] ✗ 网络不可用，片段 ${item.id} 等待网络恢复`)
+        await saveItem({ ...item, status: 'queued', nextAttemptAt: now + getRetryDelay(item.attempts), lastError: message })
+        return false
+      }
+
+      const attempts = item.attempts + 1
+      if (attempts >= MAX_ATTEMPTS) {
+        console.error(`[队列] ✗ 片段 ${item.id} 连续失败 ${attempts} 次，已标记为失败:`, error)
+        const failedItem: UploadQueueItem = { ...item, status: 'failed', attempts, lastError: message, rejected: false }
+        await saveItem(failedItem)
+        onFailedRef.current?.(failedItem, error as Error)
+      } else {
+        const delay = getRetryDelay(attempts)
+        console.warn(`[队列] ✗ 片段 ${item.id} 上传失败，${(delay / 1000).toFixed(1)}秒后重试:`, message)
+        await saveItem({ ...item, status: 'queued', attempts, nextAttemptAt: now + delay, lastError: message })
+      }
+      return false
+    }
+  }, [saveItem])
+
+  // 处理队列：每个会话同一时间只上传序号最小的一个片段，保证会话内顺序
+  // 失败的片段留在队首，阻塞该会话的后续片段，直到手动重试或放弃
+  const processQueue = useCallback(async () => {
+    if (isProcessingRef.current) {
+      rerunRequestsRef.current++
+      return
+    }
+    isProcessingRef.current = true
+
+    if (retryTimerRef.current) {
+      clearTimeout(retryTimerRef.current)
+      retryTimerRef.current = undefined
+    }
+
+    try {
+      for (;;) {
+        // 已卸载，停止处理
+        if (!abortControllerRef.current) break
+
+        const rerunRequests = rerunRequestsRef.current
+        const items = await getAllQueueItems()
+        updateCounts(items)
+
+        // 每个会话的队首条目（队首失败的会话暂停上传）
+        const heads = new Map<number, UploadQueueItem>()
+        for (const item of items) {
+          if (!heads.has(item.conversationId)) {
+            heads.set(item.conversationId, item)
+          }
+        }
+        const pending = [...heads.values()].filter((item) => item.status !== 'failed')
+
+        const now = Date.now()
+        const ready = pending.filter((item) => item.nextAttemptAt <= now)
+
+        if (ready.length === 0) {
+          // 读取队列后又有片段入队，重新读取，避免新片段滞留到下次触发
+          if (rerunRequestsRef.current !== rerunRequests) continue
+          // 没有可立即上传的条目，按最早的退避时间安排下一轮
+          if (pending.length > 0) {
+            const nextAttemptAt = Math.min(...pending.map((item) => item.nextAttemptAt))
+            retryTimerRef.current = window.setTimeout(() => {
+              void processQueue()
+            }, Math.max(nextAttemptAt - now, 0))
+          }
+          break
+        }
+
+        await Promise.all(ready.map(uploadItem))
+      }
+    } catch (error) {
+      console.error('[队列] ✗ 处理队列失败:', error)
+    } finally {
+      isProcessingRef.current = false
+    }
+  }, [updateCounts, uploadItem])
+
+  // 片段入队并立即尝试上传
+  const enqueue = useCallback(async (blob: Blob, conversationId: number, { clipId, seq, audioFormat, speaker, continuesPrevious }: EnqueueOptions): Promise<UploadQueueItem> => {
+    const item: UploadQueueItem = {
+      id: `${Date.now()}-${Math.random()}`,
+      conversationId,
+      clipId,
+      seq,
+      continuesPrevious,
+      blob,
+      audioFormat,
+      speaker,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'queued',
+      nextAttemptAt: 0,
+    }
+
+    await saveItem(item)
+    console.log(`[队列] + 片段已入队: ${item.id} (序号 ${seq})`)
+    void processQueue()
+    return item
+  }, [processQueue, saveItem])
+
+  // 将失败的片段重新放回队列
+  const retryFailed = useCallback(async () => {
+    const items = await getAllQueueItems()
+    const failedItems = items.filter((item) => item.status === 'failed')
+    for (const item of failedItems) {
+      await saveItem({ ...item, status: 'queued', attempts: 0, nextAttemptAt: 0, rejected: false })
+    }
+    console.log(`[队列] ↻ 重新上传 ${failedItems.length} 个失败片段`)
+    void processQueue()
+  }, [processQueue, saveItem])
+
+  // 放弃失败的片段，其后被阻塞的片段继续上传
+  const discardFailed = useCallback(async () => {
+    const items = await getAllQueueItems()
+    const failedItems = items.filter((item) => item.status === 'failed')
+    for (const item of failedItems) {
+      await deleteQueueItem(item.id)
+    }
+    console.warn(`[队列] 已放弃 ${failedItems.length} 个失败片段`)
+    void processQueue()
+    return failedItems
+  }, [processQueue])
+
+  // 网络恢复时立即重试等待中的片段
+  const handleOnline = useCallback(async () => {
+    setIsOnline(true)
+    console.log('[队列] 网络已恢复，继续上传')
+    const items = await getAllQueueItems()
+    for (const item of items) {
+      if (item.status === 'queued' && item.nextAttemptAt > 0) {
+        await putQueueItem({ ...item, nextAttemptAt: 0 })
+      }
+    }
+    void processQueue()
+  }, [processQueue])
+
+  useEffect(() => {
+    const onOnline = () => {
+      void handleOnline()
+    }
+    const onOffline = () => {
+      setIsOnline(false)
+      console.warn('[队列] 网络已断开，片段将保留在本地队列')
+    }
+
+    window.addEventListener('online', onOnline)
+    window.addEventListener('offline', onOffline)
+    abortControllerRef.current = new AbortController()
+
+    // 启动时继续上传上次未完成的片段（上传中被中断的条目视为排队中）
+    void processQueue()
+
+    return () => {
+      window.removeEventListener('online', onOnline)
+      window.removeEventListener('offline', onOffline)
+      abortControllerRef.current?.abort()
+      abortControllerRef.current = null
+      if (retryTimerRef.current) {
+        clearTimeout(retryTimerRef.current)
+        retryTimerRef.current = undefined
+      }
+    }
+  }, [handleOnline, processQueue])
+
+  return {
+    enqueue,
+    retryFailed,
+    discardFailed,
+    queuedCount,
+    failedCount,
+    blockedCount,
+    isOnline,
+  }
+}
@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App'
+import { applyMockApiSettings } from './api/mock'
+
+// 演示模式需在首个请求之前启用
+applyMockApiSettings()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,289 @@
+import { CreateConversationResponse, SymptomVerdict } from '../api/consultation'
+import { Speaker, SPEAKER_LABELS } from '../audio/speaker'
+import { SymptomBoardEntry, SYMPTOM_VERDICT_STYLES } from '../hooks/useSymptomBoard'
+import { MEDICAL_DISCLAIMER } from './disclaimer'
+
+// 问诊报告（完全在浏览器端生成）
+
+export type ReportFormat = 'markdown' | 'html'
+
+// 报告中的一条对话
+export interface ReportMessage {
+  timestamp: Date
+  speaker?: Speaker
+  content: string
+  typed?: boolean // 文字输入
+}
+
+// 报告中的一项症状
+export interface ReportSymptom {
+  cui: string
+  summary: string
+  description: string
+  peakConfidence: number
+  mentions: number
+  verdict?: SymptomVerdict // 医生的判断（已保存的）
+  note?: string
+}
+
+export interface ConsultationReport {
+  conversation: Pick<CreateConversationResponse, 'conversation_id' | 'title' | 'department' | 'created_at'>
+  generatedAt: Date
+  transcript: ReportMessage[]
+  symptoms: ReportSymptom[] // 按最高置信度降序
+  disclaimer: string[]
+}
+
+/**
+ * 由当前会话数据构建报告
+ */
+export function buildConsultationReport(
+  conversation: ConsultationReport['conversation'],
+  transcript: ReportMessage[],
+  symptoms: SymptomBoardEntry[],
+): ConsultationReport {
+  return {
+    conversation,
+    generatedAt: new Date(),
+    transcript: transcript.map(({ timestamp, speaker, content, typed }) => ({ timestamp, speaker, content, typed })),
+    symptoms: [...symptoms]
+      .sort((a, b) => b.peakConfidence - a.peakConfidence)
+      .map((entry) => {
+        // 仅记录已保存到服务器的判断
+        const feedback = entry.feedback?.status === 'saved' ? entry.feedback : undefined
+        return {
+          cui: entry.cui,
+          summary: entry.summary,
+          description: entry.description,
+          peakConfidence: entry.peakConfidence,
+          mentions: entry.mentions,
+          verdict: feedback?.verdict,
+          note: feedback?.note || undefined,
+        }
+      }),
+    disclaimer: MEDICAL_DISCLAIMER,
+  }
+}
+
+function formatDateTime(value: Date | string): string {
+  return new Date(value).toLocaleString('zh-CN', { hour12: false })
+}
+
+function formatTime(value: Date): string {
+  return value.toLocaleTimeString('zh-CN', { hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false })
+}
+
+function formatConfidence(value: number): string {
+  return `${Math.round(value * 100).toString()}%`
+}
+
+// 去掉判断标签前的符号（✓ 确认 → 确认）
+function verdictText(verdict: SymptomVerdict | undefined): string {
+  return verdict ? SYMPTOM_VERDICT_STYLES[verdict].label.replace(/^\S+\s/, '') : '—'
+}
+
+function speakerText(speaker: Speaker | undefined, typed?: boolean): string {
+  const label = speaker ? SPEAKER_LABELS[speaker] : '未标注'
+  return typed ? `${label}（文字输入）` : label
+}
+
+function metadataRows(report: ConsultationReport): [string, string][] {
+  const { conversation } = report
+  return [
+    ['会话 ID', conversation.conversation_id.toString()],
+    ['标题', conversation.title],
+    ['科室', conversation.department],
+    ['开始时间', formatDateTime(conversation.created_at)],
+    ['生成时间', formatDateTime(report.generatedAt)],
+  ]
+}
+
+// Markdown 表格单元格中的竖线和换行需要转义
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ')
+}
+
+/**
+ * 生成 Markdown 报告
+ */
+export function renderMarkdown(report: ConsultationReport): string {
+  const lines: string[] = [`# 问诊报告：${report.conversation.title}`, '']
+
+  lines.push('| 项目 | 内容 |', '| --- | --- |')
+  for (const [label, value] of metadataRows(report)) {
+    lines.push(`| ${label} | ${escapeMarkdownCell(value)} |`)
+  }
+
+  lines.push('', '## 对话记录', '')
+  if (report.transcript.length === 0) {
+    lines.push('（无）')
+  }
+  for (const message of report.transcript) {
+    lines.push(`- \`${formatTime(message.timestamp)}\` **${speakerText(message.speaker, message.typed)}**：${message.content.replace(/\r?\n/g, ' ')}`)
+  }
+
+  lines.push('', '## 识别的症状', '')
+  if (report.symptoms.length === 0) {
+    lines.push('（无）')
+  } else {
+    lines.push('| 症状 | CUI | 最高置信度 | 提及次数 | 医生判断 | 备注 |', '| --- | --- | --- | --- | --- | --- |')
+    for (const symptom of report.symptoms) {
+      lines.push(`| ${[
+        symptom.summary,
+        symptom.cui,
+        formatConfidence(symptom.peakConfidence),
+        symptom.mentions.toString(),
+        verdictText(symptom.verdict),
+        symptom.note ?? '',
+      ].map(escapeMarkdownCell).join(' | ')} |`)
+    }
+  }
+
+  lines.push('', '## Important Medical Disclaimer', '')
+  for (const item of report.disclaimer) {
+    lines.push(`> - ${item}`)
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// 报告自带样式，打印时同样生效
+const REPORT_STYLE = `
+  body { font-family: -apple-system, "PingFang SC", "Microsoft YaHei", sans-serif; color: #111827; max-width: 800px; margin: 32px auto; padding: 0 16px; line-height: 1.6; }
+  h1 { font-size: 22px; margin-bottom: 16px; }
+  h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  .transcript { list-style: none; padding: 0; font-size: 14px; }
+  .transcript li { margin: 6px 0; }
+  .time { color: #9ca3af; font-family: monospace; margin-right: 8px; }
+  .speaker { font-weight: 600; margin-right: 4px; }
+  .description { color: #6b7280; font-size: 12px; }
+  .disclaimer { font-size: 12px; color: #6b7280; background: #f9fafb; border-left: 3px solid #d1d5db; padding: 8px 16px; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } tr, li { break-inside: avoid; } }
+`
+
+/**
+ * 生成独立的 HTML 报告（可直接打印为 PDF）
+ */
+export function renderHTML(report: ConsultationReport): string {
+  const metadata = metadataRows(report)
+    .map(([label, value]) => `<tr><th>${escapeHTML(label)}</th><td>${escapeHTML(value)}</td></tr>`)
+    .join('\n')
+
+  const transcript = report.transcript.length === 0
+    ? '<p>（无）</p>'
+    : `<ul class="transcript">\n${report.transcript.map((message) => (
+      `<li><span class="time">${formatTime(message.timestamp)}</span>`
+      + `<span class="speaker">${escapeHTML(speakerText(message.speaker, message.typed))}</span>${escapeHTML(message.content)}</li>`
+    )).join('\n')}\n</ul>`
+
+  const symptoms = report.symptoms.length === 0
+    ? '<p>（无）</p>'
+    : `<table>
+<thead><tr><th>症状</th><th>CUI</th><th>最高置信度</th><th>提及次数</th><th>医生判断</th><th>备注</th></tr></thead>
+<tbody>
+${report.symptoms.map((symptom) => (
+      `<tr><td>${escapeHTML(symptom.summary)}<div class="description">${escapeHTML(symptom.description)}</div></td>`
+      + `<td>${escapeHTML(symptom.cui)}</td><td>${formatConfidence(symptom.peakConfidence)}</td>`
+      + `<td>${symptom.mentions.toString()}</td><td>${verdictText(symptom.verdict)}</td>`
+      + `<td>${escapeHTML(symptom.note ?? '')}</td></tr>`
+    )).join('\n')}
+</tbody>
+</table>`
+
+  const disclaimer = report.disclaimer.map((item) => `<li>${escapeHTML(item)}</li>`).join('\n')
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>问诊报告 - ${escapeHTML(report.conversation.title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>问诊报告：${escapeHTML(report.conversation.title)}</h1>
+<table>
+${metadata}
+</table>
+<h2>对话记录</h2>
+${transcript}
+<h2>识别的症状</h2>
+${symptoms}
+<h2>Important Medical Disclaimer</h2>
+<ul class="disclaimer">
+${disclaimer}
+</ul>
+</body>
+</html>
+`
+}
+
+/**
+ * 报告文件名，如 consultation-12-20240101.md
+ */
+export function getReportFilename(report: ConsultationReport, extension: string): string {
+  const date = new Date(report.conversation.created_at)
+  const day = `${date.getFullYear().toString()}${(date.getMonth() + 1).toString().padStart(2, '0')}${date.getDate().toString().padStart(2, '0')}`
+  return `consultation-${report.conversation.conversation_id.toString()}-${day}.${extension}`
+}
+
+/**
+ * 以文件形式下载
+ */
+export function downloadFile(content: BlobPart, filename: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  // 等浏览器开始下载后再释放
+  setTimeout(() => {
+    URL.revokeObjectURL(url)
+  }, 1000)
+}
+
+/**
+ * 下载 Markdown 或 HTML 报告
+ */
+export function downloadReport(report: ConsultationReport, format: ReportFormat) {
+  if (format === 'markdown') {
+    downloadFile(renderMarkdown(report), getReportFilename(report, 'md'), 'text/markdown;charset=utf-8')
+  } else {
+    downloadFile(renderHTML(report), getReportFilename(report, 'html'), 'text/html;charset=utf-8')
+  }
+}
+
+/**
+ * 通过隐藏的 iframe 调起浏览器打印（可选择“另存为 PDF”）
+ */
+export function printReport(report: ConsultationReport) {
+  const frame = document.createElement('iframe')
+  frame.style.position = 'fixed'
+  frame.style.width = '0'
+  frame.style.height = '0'
+  frame.style.border = '0'
+  frame.onload = () => {
+    const printWindow = frame.contentWindow
+    if (!printWindow) return
+    printWindow.onafterprint = () => {
+      frame.remove()
+    }
+    printWindow.focus()
+    printWindow.print()
+  }
+  frame.srcdoc = renderHTML(report)
+  document.body.appendChild(frame)
+}
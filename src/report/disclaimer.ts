@@ -0,0 +1,26 @@
+import readme from '../../README.md?raw'
+
+// 免责声明以 README 为准，构建时直接读取其中的章节，避免两处文本不一致
+const DISCLAIMER_HEADING = /^(#+)\s*Important Medical Disclaimer\s*$/im
+
+/**
+ * 提取 README 中免责声明章节的条目
+ * 章节到下一个同级或更高级的标题为止；找不到章节或章节中没有条目时报错，避免报告悄悄缺少免责声明
+ */
+export function parseDisclaimer(markdown: string): string[] {
+  const match = DISCLAIMER_HEADING.exec(markdown)
+  if (!match) throw new Error('README 中缺少 Important Medical Disclaimer 章节')
+
+  const level = match[1].length
+  const section = markdown.slice(match.index + match[0].length)
+  const nextHeading = new RegExp(`^#{1,${level.toString()}}\\s`, 'm').exec(section)
+  const items = (nextHeading ? section.slice(0, nextHeading.index) : section)
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^[*-]\s+/.test(line))
+    .map((line) => line.replace(/^[*-]\s+/, ''))
+  if (items.length === 0) throw new Error('README 的 Important Medical Disclaimer 章节中没有列表条目')
+  return items
+}
+
+export const MEDICAL_DISCLAIMER: string[] = parseDisclaimer(readme)
@@ -0,0 +1,332 @@
+import { SymptomVerdict } from '../api/consultation'
+import { SPEAKER_LABELS } from '../audio/speaker'
+import { ConsultationReport, downloadFile, getReportFilename, ReportSymptom } from './consultationReport'
+
+// 将问诊导出为 FHIR R4 Bundle（collection）：
+// - Encounter：本次问诊
+// - DocumentReference：转录全文（纯文本附件）
+// - Observation：每项症状，以 UMLS CUI 编码，匹配置信度等记录在扩展中
+
+const UMLS_SYSTEM = 'http://www.nlm.nih.gov/research/umls'
+const LOINC_SYSTEM = 'http://loinc.org'
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode'
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category'
+const CONVERSATION_ID_SYSTEM = 'urn:medi-bridge:conversation-id'
+
+// 自定义扩展的 canonical URL
+const EXTENSION_BASE = 'http://medi-bridge.local/fhir/StructureDefinition'
+export const FHIR_EXTENSIONS = {
+  matchConfidence: `${EXTENSION_BASE}/symptom-match-confidence`, // valueDecimal，0-1
+  mentionCount: `${EXTENSION_BASE}/symptom-mention-count`, // valueInteger
+} as const
+
+// 医生判断对应的 Observation 状态：确认的为 final，排除的为 cancelled，其余仍是初步结果
+const VERDICT_STATUS: Record<SymptomVerdict, FhirObservation['status']> = {
+  confirmed: 'final',
+  rejected: 'cancelled',
+  uncertain: 'preliminary',
+}
+
+export interface FhirCoding {
+  system: string
+  code: string
+  display?: string
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[]
+  text?: string
+}
+
+export interface FhirReference {
+  reference: string
+  display?: string
+}
+
+export interface FhirExtension {
+  url: string
+  valueDecimal?: number
+  valueInteger?: number
+  valueString?: string
+}
+
+export interface FhirEncounter {
+  resourceType: 'Encounter'
+  status: 'planned' | 'in-progress' | 'finished' | 'cancelled' | 'unknown'
+  class: FhirCoding
+  identifier?: { system: string; value: string }[]
+  serviceType?: FhirCodeableConcept
+  reasonCode?: FhirCodeableConcept[]
+  period?: { start?: string; end?: string }
+}
+
+export interface FhirDocumentReference {
+  resourceType: 'DocumentReference'
+  status: 'current' | 'superseded' | 'entered-in-error'
+  type?: FhirCodeableConcept
+  date?: string
+  description?: string
+  content: { attachment: { contentType: string; language?: string; data: string; title?: string; creation?: string } }[]
+  context?: { encounter?: FhirReference[]; period?: { start?: string; end?: string } }
+}
+
+export interface FhirObservation {
+  resourceType: 'Observation'
+  status: 'registered' | 'preliminary' | 'final' | 'amended' | 'cancelled' | 'entered-in-error' | 'unknown'
+  category?: FhirCodeableConcept[]
+  code: FhirCodeableConcept
+  encounter?: FhirReference
+  effectiveDateTime?: string
+  issued?: string
+  valueBoolean?: boolean
+  note?: { text: string }[]
+  extension?: FhirExtension[]
+}
+
+export type FhirResource = FhirEncounter | FhirDocumentReference | FhirObservation
+
+export interface FhirBundle {
+  resourceType: 'Bundle'
+  type: 'collection'
+  timestamp: string
+  identifier?: { system: string; value: string }
+  entry: { fullUrl: string; resource: FhirResource }[]
+}
+
+/**
+ * Bundle 校验失败
+ */
+export class FhirValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(issues: string[]) {
+    super(`FHIR Bundle 校验失败：${issues.join('；')}`)
+    this.name = 'FhirValidationError'
+    this.issues = issues
+  }
+}
+
+// FHIR dateTime 带时间时必须包含时区，统一转为 UTC
+function toFhirDateTime(value: Date | string): string {
+  return new Date(value).toISOString()
+}
+
+function newFullUrl(): string {
+  return `urn:uuid:${crypto.randomUUID()}`
+}
+
+// UTF-8 文本转为 base64（attachment.data）
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text)
+  let binary = ''
+  for (const byte of bytes) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+function transcriptText(report: ConsultationReport): string {
+  return report.transcript
+    .map((message) => {
+      const speaker = `${message.speaker ? SPEAKER_LABELS[message.speaker] : '未标注'}${message.typed ? '（文字输入）' : ''}`
+      return `[${toFhirDateTime(message.timestamp)}] ${speaker}：${message.content}`
+    })
+    .join('\n')
+}
+
+function symptomObservation(symptom: ReportSymptom, encounterUrl: string, report: ConsultationReport): FhirObservation {
+  const notes = [{ text: symptom.description }]
+  if (symptom.note) {
+    notes.push({ text: `医生备注：${symptom.note}` })
+  }
+
+  return {
+    resourceType: 'Observation',
+    status: symptom.verdict ? VERDICT_STATUS[symptom.verdict] : 'preliminary',
+    category: [{
+      coding: [{ system: OBSERVATION_CATEGORY_SYSTEM, code: 'survey', display: 'Survey' }],
+    }],
+    code: {
+      coding: [{ system: UMLS_SYSTEM, code: symptom.cui, display: symptom.summary }],
+      text: symptom.summary,
+    },
+    encounter: { reference: encounterUrl },
+    effectiveDateTime: toFhirDateTime(report.conversation.created_at),
+    issued: toFhirDateTime(report.generatedAt),
+    valueBoolean: symptom.verdict !== 'rejected',
+    note: notes,
+    extension: [
+      { url: FHIR_EXTENSIONS.matchConfidence, valueDecimal: Number(symptom.peakConfidence.toFixed(4)) },
+      { url: FHIR_EXTENSIONS.mentionCount, valueInteger: symptom.mentions },
+    ],
+  }
+}
+
+/**
+ * 由问诊报告构建 FHIR R4 Bundle
+ */
+export function buildFhirBundle(report: ConsultationReport, options: { inProgress?: boolean } = {}): FhirBundle {
+  const { conversation } = report
+  const encounterUrl = newFullUrl()
+  const start = toFhirDateTime(conversation.created_at)
+  const end = options.inProgress ? undefined : toFhirDateTime(report.generatedAt)
+
+  const encounter: FhirEncounter = {
+    resourceType: 'Encounter',
+    status: options.inProgress ? 'in-progress' : 'finished',
+    class: { system: ACT_CODE_SYSTEM, code: 'AMB', display: 'ambulatory' },
+    identifier: [{ system: CONVERSATION_ID_SYSTEM, value: conversation.conversation_id.toString() }],
+    serviceType: { text: conversation.department },
+    reasonCode: [{ text: conversation.title }],
+    period: { start, end },
+  }
+
+  const transcript: FhirDocumentReference = {
+    resourceType: 'DocumentReference',
+    status: 'current',
+    type: {
+      coding: [{ system: LOINC_SYSTEM, code: '11488-4', display: 'Consult note' }],
+      text: '问诊转录',
+    },
+    date: toFhirDateTime(report.generatedAt),
+    description: '语音识别自动生成的问诊转录',
+    content: [{
+      attachment: {
+        contentType: 'text/plain; charset=utf-8',
+        language: 'zh-CN',
+        data: toBase64(transcriptText(report)),
+        title: `${conversation.title} 转录`,
+        creation: toFhirDateTime(report.generatedAt),
+      },
+    }],
+    context: { encounter: [{ reference: encounterUrl }], period: { start, end } },
+  }
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    timestamp: toFhirDateTime(report.generatedAt),
+    identifier: { system: CONVERSATION_ID_SYSTEM, value: conversation.conversation_id.toString() },
+    entry: [
+      { fullUrl: encounterUrl, resource: encounter },
+      { fullUrl: newFullUrl(), resource: transcript },
+      ...report.symptoms.map((symptom) => ({
+        fullUrl: newFullUrl(),
+        resource: symptomObservation(symptom, encounterUrl, report),
+      })),
+    ],
+  }
+}
+
+// 校验规则取自 FHIR R4 规范中各字段的基数、取值范围与数据类型格式
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/
+const UUID_URL_PATTERN = /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+const ABSOLUTE_URI_PATTERN = /^(https?:\/\/|urn:)\S+$/
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/
+
+const ENCOUNTER_STATUSES = ['planned', 'arrived', 'triaged', 'in-progress', 'onleave', 'finished', 'cancelled', 'entered-in-error', 'unknown']
+const DOCUMENT_STATUSES = ['current', 'superseded', 'entered-in-error']
+const OBSERVATION_STATUSES = ['registered', 'preliminary', 'final', 'amended', 'corrected', 'cancelled', 'entered-in-error', 'unknown']
+
+function checkDateTime(issues: string[], path: string, value: string | undefined) {
+  if (value !== undefined && !DATE_TIME_PATTERN.test(value)) {
+    issues.push(`${path} 不是有效的 dateTime：${value}`)
+  }
+}
+
+function checkCodings(issues: string[], path: string, concept: FhirCodeableConcept | undefined) {
+  concept?.coding?.forEach((coding, index) => {
+    if (!ABSOLUTE_URI_PATTERN.test(coding.system)) issues.push(`${path}.coding[${index.toString()}].system 不是绝对 URI`)
+    if (!coding.code.trim()) issues.push(`${path}.coding[${index.toString()}].code 为空`)
+  })
+}
+
+function checkReference(issues: string[], path: string, reference: FhirReference | undefined, fullUrls: Set<string>) {
+  if (reference && !fullUrls.has(reference.reference)) {
+    issues.push(`${path} 引用的资源不在 Bundle 中：${reference.reference}`)
+  }
+}
+
+function checkExtensions(issues: string[], path: string, extensions: FhirExtension[] | undefined) {
+  extensions?.forEach((extension, index) => {
+    const extensionPath = `${path}.extension[${index.toString()}]`
+    if (!ABSOLUTE_URI_PATTERN.test(extension.url)) issues.push(`${extensionPath}.url 不是绝对 URI`)
+    const values = [extension.valueDecimal, extension.valueInteger, extension.valueString].filter((v) => v !== undefined)
+    if (values.length !== 1) issues.push(`${extensionPath} 必须且只能有一个 value[x]`)
+    if (extension.valueDecimal !== undefined && !Number.isFinite(extension.valueDecimal)) {
+      issues.push(`${extensionPath}.valueDecimal 不是有效数字`)
+    }
+    if (extension.valueInteger !== undefined && !Number.isInteger(extension.valueInteger)) {
+      issues.push(`${extensionPath}.valueInteger 不是整数`)
+    }
+  })
+}
+
+/**
+ * 在本地校验 Bundle 的结构，返回发现的问题（为空表示通过）
+ */
+export function validateFhirBundle(bundle: FhirBundle): string[] {
+  const issues: string[] = []
+  checkDateTime(issues, 'Bundle.timestamp', bundle.timestamp)
+
+  const fullUrls = new Set<string>()
+  bundle.entry.forEach((entry, index) => {
+    if (!UUID_URL_PATTERN.test(entry.fullUrl)) issues.push(`entry[${index.toString()}].fullUrl 不是 urn:uuid`)
+    if (fullUrls.has(entry.fullUrl)) issues.push(`entry[${index.toString()}].fullUrl 重复`)
+    fullUrls.add(entry.fullUrl)
+  })
+
+  bundle.entry.forEach(({ resource }, index) => {
+    const path = `entry[${index.toString()}].${resource.resourceType}`
+    switch (resource.resourceType) {
+      case 'Encounter':
+        if (!ENCOUNTER_STATUSES.includes(resource.status)) issues.push(`${path}.status 无效`)
+        if (!resource.class.code) issues.push(`${path}.class 缺失`)
+        checkDateTime(issues, `${path}.period.start`, resource.period?.start)
+        checkDateTime(issues, `${path}.period.end`, resource.period?.end)
+        if (resource.period?.start && resource.period.end && resource.period.start > resource.period.end) {
+          issues.push(`${path}.period 结束时间早于开始时间`)
+        }
+        break
+      case 'DocumentReference':
+        if (!DOCUMENT_STATUSES.includes(resource.status)) issues.push(`${path}.status 无效`)
+        if (resource.content.length === 0) issues.push(`${path}.content 至少需要一项`)
+        resource.content.forEach(({ attachment }, contentIndex) => {
+          const attachmentPath = `${path}.content[${contentIndex.toString()}].attachment`
+          if (!attachment.contentType) issues.push(`${attachmentPath}.contentType 缺失`)
+          if (!BASE64_PATTERN.test(attachment.data)) issues.push(`${attachmentPath}.data 不是 base64`)
+          checkDateTime(issues, `${attachmentPath}.creation`, attachment.creation)
+        })
+        checkCodings(issues, `${path}.type`, resource.type)
+        checkDateTime(issues, `${path}.date`, resource.date)
+        resource.context?.encounter?.forEach((reference, refIndex) => {
+          checkReference(issues, `${path}.context.encounter[${refIndex.toString()}]`, reference, fullUrls)
+        })
+        break
+      case 'Observation':
+        if (!OBSERVATION_STATUSES.includes(resource.status)) issues.push(`${path}.status 无效`)
+        if (!resource.code.coding?.length && !resource.code.text) issues.push(`${path}.code 缺失`)
+        checkCodings(issues, `${path}.code`, resource.code)
+        resource.category?.forEach((category, categoryIndex) => {
+          checkCodings(issues, `${path}.category[${categoryIndex.toString()}]`, category)
+        })
+        checkReference(issues, `${path}.encounter`, resource.encounter, fullUrls)
+        checkDateTime(issues, `${path}.effectiveDateTime`, resource.effectiveDateTime)
+        checkDateTime(issues, `${path}.issued`, resource.issued)
+        checkExtensions(issues, path, resource.extension)
+        break
+    }
+  })
+
+  return issues
+}
+
+/**
+ * 构建、校验并下载 FHIR Bundle，校验不通过时抛出 FhirValidationError
+ */
+export function downloadFhirBundle(report: ConsultationReport, options?: { inProgress?: boolean }) {
+  const bundle = buildFhirBundle(report, options)
+  const issues = validateFhirBundle(bundle)
+  if (issues.length > 0) {
+    throw new FhirValidationError(issues)
+  }
+  downloadFile(JSON.stringify(bundle, null, 2), getReportFilename(report, 'fhir.json'), 'application/fhir+json')
+}
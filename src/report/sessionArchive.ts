@@ -0,0 +1,252 @@
+import { AudioFormat, encodeWAV } from '../audio/encoders'
+import { Speaker } from '../audio/speaker'
+import { SymptomBoardEntry } from '../hooks/useSymptomBoard'
+import { ConsultationReport } from './consultationReport'
+import { createZip, readZip } from './zip'
+
+// 会话存档：一个 ZIP，包含每个语音片段的 WAV 与 manifest.json（时间、转录、症状、会话信息），
+// 可以重新导入用于回看和回放（质检、教学）
+
+const ARCHIVE_FORMAT = 'medi-bridge-session'
+const ARCHIVE_VERSION = 1
+const MANIFEST_FILE = 'manifest.json'
+const ARCHIVE_SAMPLE_RATE = 16000 // 非 WAV 片段解码后按录音采样率写出
+
+// 存档中的语音片段
+export interface ArchivedClip {
+  id: string
+  seq: number
+  blob: Blob // WAV
+  originalFormat: AudioFormat // 录制时上传所用的格式
+  duration: number // ms
+  submitTime: Date
+  speaker: Speaker
+  transcribed: boolean
+  transcription?: string
+  originalTranscription?: string // 修正前的识别原文
+  continuesPrevious?: boolean
+  continuesNext?: boolean
+}
+
+// 存档中的转录消息
+export interface ArchivedMessage {
+  id: string
+  seq: number
+  clipId?: string
+  content: string
+  timestamp: Date
+  speaker?: Speaker
+  continuesPrevious?: boolean
+  originalContent?: string // 修正前的识别原文
+  typed?: boolean // 文字输入
+}
+
+export interface SessionArchive {
+  conversation: ConsultationReport['conversation']
+  exportedAt: Date
+  clips: ArchivedClip[]
+  messages: ArchivedMessage[]
+  symptoms: SymptomBoardEntry[]
+}
+
+// manifest.json 的结构（日期为 ISO 字符串，音频以文件路径引用）
+interface ManifestClip extends Omit<ArchivedClip, 'blob' | 'submitTime'> {
+  file: string
+  submitTime: string
+}
+
+interface ManifestMessage extends Omit<ArchivedMessage, 'timestamp'> {
+  timestamp: string
+}
+
+interface SessionManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+  conversation: ConsultationReport['conversation']
+  clips: ManifestClip[]
+  messages: ManifestMessage[]
+  symptoms: SymptomBoardEntry[]
+}
+
+/**
+ * 存档无法读取（格式不对、版本过新或文件缺失）
+ */
+export class SessionArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SessionArchiveError'
+  }
+}
+
+// 非 WAV 片段先解码为 PCM 再写成 WAV，保证存档在任何播放器中都能打开
+async function toWav(blob: Blob, format: AudioFormat): Promise<Blob> {
+  if (format === 'wav') return blob
+  const context = new OfflineAudioContext(1, 1, ARCHIVE_SAMPLE_RATE)
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer())
+  return encodeWAV(buffer.getChannelData(0), ARCHIVE_SAMPLE_RATE)
+}
+
+// manifest 来自用户选择的文件，逐项检查结构，避免导入后界面出现 Invalid Date 或运行时异常
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function invalidManifest(field: string, expected: string): SessionArchiveError {
+  return new SessionArchiveError(`${MANIFEST_FILE} 格式错误：${field} 应为${expected}`)
+}
+
+function checkFields(value: unknown, field: string, types: Record<string, 'string' | 'number' | 'boolean' | 'array'>) {
+  if (!isRecord(value)) throw invalidManifest(field, '对象')
+  for (const [key, type] of Object.entries(types)) {
+    const valid = type === 'array' ? Array.isArray(value[key]) : typeof value[key] === type
+    if (!valid) throw invalidManifest(`${field}.${key}`, { string: '字符串', number: '数字', boolean: '布尔值', array: '数组' }[type])
+  }
+}
+
+function checkArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) throw invalidManifest(field, '数组')
+  return value
+}
+
+function parseDate(value: unknown, field: string): Date {
+  const date = typeof value === 'string' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) throw invalidManifest(field, ' ISO 格式的日期')
+  return date
+}
+
+function validateManifest(manifest: SessionManifest) {
+  checkFields(manifest.conversation, 'conversation', { conversation_id: 'number', title: 'string', department: 'string', created_at: 'string' })
+  checkArray(manifest.clips, 'clips').forEach((clip, index) => {
+    checkFields(clip, `clips[${index.toString()}]`, { id: 'string', seq: 'number', file: 'string', duration: 'number', transcribed: 'boolean' })
+  })
+  checkArray(manifest.messages, 'messages').forEach((message, index) => {
+    checkFields(message, `messages[${index.toString()}]`, { id: 'string', seq: 'number', content: 'string' })
+  })
+  checkArray(manifest.symptoms, 'symptoms').forEach((symptom, index) => {
+    checkFields(symptom, `symptoms[${index.toString()}]`, {
+      cui: 'string',
+      summary: 'string',
+      history: 'array',
+      peakConfidence: 'number',
+      mentions: 'number',
+      messageIds: 'array',
+      serverMessageIds: 'array',
+    })
+  })
+}
+
+function clipFilename(clip: { seq: number }): string {
+  return `clips/${(clip.seq + 1).toString().padStart(3, '0')}.wav`
+}
+
+/**
+ * 打包会话存档
+ */
+export async function exportSessionArchive(archive: Omit<SessionArchive, 'exportedAt' | 'clips'> & {
+  clips: (Omit<ArchivedClip, 'originalFormat'> & { audioFormat: AudioFormat })[]
+}): Promise<Blob> {
+  const exportedAt = new Date()
+  const clips = [...archive.clips].sort((a, b) => a.seq - b.seq)
+  const files: { name: string; data: Uint8Array; modified?: Date }[] = []
+  const manifestClips: ManifestClip[] = []
+
+  for (const clip of clips) {
+    const file = clipFilename(clip)
+    const wav = await toWav(clip.blob, clip.audioFormat)
+    files.push({ name: file, data: new Uint8Array(await wav.arrayBuffer()), modified: clip.submitTime })
+    manifestClips.push({
+      id: clip.id,
+      seq: clip.seq,
+      file,
+      originalFormat: clip.audioFormat,
+      duration: clip.duration,
+      submitTime: clip.submitTime.toISOString(),
+      speaker: clip.speaker,
+      transcribed: clip.transcribed,
+      transcription: clip.transcription,
+      originalTranscription: clip.originalTranscription,
+      continuesPrevious: clip.continuesPrevious,
+      continuesNext: clip.continuesNext,
+    })
+  }
+
+  const manifest: SessionManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    conversation: archive.conversation,
+    clips: manifestClips,
+    messages: archive.messages.map((message) => ({
+      id: message.id,
+      seq: message.seq,
+      clipId: message.clipId,
+      content: message.content,
+      timestamp: message.timestamp.toISOString(),
+      speaker: message.speaker,
+      continuesPrevious: message.continuesPrevious,
+      originalContent: message.originalContent,
+      typed: message.typed,
+    })),
+    symptoms: archive.symptoms,
+  }
+
+  files.unshift({
+    name: MANIFEST_FILE,
+    data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)),
+    modified: exportedAt,
+  })
+  return createZip(files)
+}
+
+/**
+ * 读取会话存档
+ */
+export async function importSessionArchive(file: Blob): Promise<SessionArchive> {
+  let files: Map<string, Uint8Array>
+  try {
+    files = await readZip(await file.arrayBuffer())
+  } catch (error) {
+    throw new SessionArchiveError(`无法读取存档：${(error as Error).message}`)
+  }
+
+  const manifestData = files.get(MANIFEST_FILE)
+  if (!manifestData) throw new SessionArchiveError(`存档中缺少 ${MANIFEST_FILE}`)
+
+  let manifest: SessionManifest
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestData)) as SessionManifest
+  } catch {
+    throw new SessionArchiveError(`${MANIFEST_FILE} 不是有效的 JSON`)
+  }
+  if (!isRecord(manifest) || (manifest.format as string) !== ARCHIVE_FORMAT) throw new SessionArchiveError('不是问诊会话存档')
+  if (typeof manifest.version !== 'number') throw invalidManifest('version', '数字')
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new SessionArchiveError(`存档版本 ${manifest.version.toString()} 过新，请升级应用后再导入`)
+  }
+  validateManifest(manifest)
+
+  const clips = manifest.clips.map(({ file: path, submitTime, ...clip }, index) => {
+    const data = files.get(path)
+    if (!data) throw new SessionArchiveError(`存档中缺少音频文件 ${path}`)
+    return { ...clip, blob: new Blob([data], { type: 'audio/wav' }), submitTime: parseDate(submitTime, `clips[${index.toString()}].submitTime`) }
+  })
+
+  return {
+    conversation: manifest.conversation,
+    exportedAt: parseDate(manifest.exportedAt, 'exportedAt'),
+    clips,
+    messages: manifest.messages.map((message, index) => ({
+      ...message,
+      timestamp: parseDate(message.timestamp, `messages[${index.toString()}].timestamp`),
+    })),
+    symptoms: manifest.symptoms,
+  }
+}
+
+/**
+ * 存档文件名，如 consultation-12-session.zip
+ */
+export function getArchiveFilename(conversation: ConsultationReport['conversation']): string {
+  return `consultation-${conversation.conversation_id.toString()}-session.zip`
+}
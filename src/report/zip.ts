@@ -0,0 +1,163 @@
+// 最小 ZIP 读写：写入时不压缩（音频本身已难以压缩），读取时支持不压缩与 deflate 两种方式
+
+export interface ZipEntry {
+  name: string // 文件路径，使用 / 分隔
+  data: Uint8Array
+  modified?: Date
+}
+
+const LOCAL_FILE_HEADER = 0x04034B50
+const CENTRAL_DIRECTORY_HEADER = 0x02014B50
+const END_OF_CENTRAL_DIRECTORY = 0x06054B50
+const UTF8_FLAG = 0x0800 // 文件名为 UTF-8
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let i = 0; i < 256; i++) {
+      let r = i
+      for (let bit = 0; bit < 8; bit++) {
+        r = r & 1 ? (r >>> 1) ^ 0xEDB88320 : r >>> 1
+      }
+      crcTable[i] = r >>> 0
+    }
+  }
+  let crc = 0xFFFFFFFF
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+// MS-DOS 时间格式（精度 2 秒）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * 打包为 ZIP（不压缩）
+ */
+export function createZip(entries: ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const { time, date } = toDosDateTime(entry.modified ?? new Date())
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, LOCAL_FILE_HEADER, true)
+    localView.setUint16(4, 20, true) // 解压所需版本
+    localView.setUint16(6, UTF8_FLAG, true)
+    localView.setUint16(8, METHOD_STORE, true)
+    localView.setUint16(10, time, true)
+    localView.setUint16(12, date, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, entry.data.length, true) // 压缩后大小
+    localView.setUint32(22, entry.data.length, true) // 原始大小
+    localView.setUint16(26, name.length, true)
+    local.set(name, 30)
+
+    const header = new Uint8Array(46 + name.length)
+    const headerView = new DataView(header.buffer)
+    headerView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    headerView.setUint16(4, 20, true) // 创建版本
+    headerView.setUint16(6, 20, true)
+    headerView.setUint16(8, UTF8_FLAG, true)
+    headerView.setUint16(10, METHOD_STORE, true)
+    headerView.setUint16(12, time, true)
+    headerView.setUint16(14, date, true)
+    headerView.setUint32(16, crc, true)
+    headerView.setUint32(20, entry.data.length, true)
+    headerView.setUint32(24, entry.data.length, true)
+    headerView.setUint16(28, name.length, true)
+    headerView.setUint32(42, offset, true) // 本地文件头偏移
+    header.set(name, 46)
+
+    parts.push(local, entry.data)
+    central.push(header)
+    offset += local.length + entry.data.length
+  }
+
+  const centralSize = central.reduce((sum, header) => sum + header.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' })
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * 读取 ZIP 中的全部文件（按中央目录），返回 路径 → 内容
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(buffer)
+  const view = new DataView(buffer)
+  const decoder = new TextDecoder()
+
+  // 从末尾向前查找中央目录结束记录（其后可能有最长 65535 字节的注释）
+  let endOffset = -1
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xFFFF); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset < 0) throw new Error('不是有效的 ZIP 文件')
+
+  const count = view.getUint16(endOffset + 10, true)
+  let offset = view.getUint32(endOffset + 16, true)
+  const files = new Map<string, Uint8Array>()
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) throw new Error('ZIP 中央目录已损坏')
+    const method = view.getUint16(offset + 10, true)
+    const crc = view.getUint32(offset + 16, true)
+    const compressedSize = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const localOffset = view.getUint32(offset + 42, true)
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength))
+    offset += 46 + nameLength + extraLength + commentLength
+
+    if (name.endsWith('/')) continue // 目录
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) throw new Error(`ZIP 文件头已损坏：${name}`)
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize)
+
+    let data: Uint8Array
+    if (method === METHOD_STORE) {
+      data = raw
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(raw)
+    } else {
+      throw new Error(`不支持的 ZIP 压缩方式（${method.toString()}）：${name}`)
+    }
+    if (crc32(data) !== crc) throw new Error(`ZIP 文件校验失败：${name}`)
+    files.set(name, data)
+  }
+
+  return files
+}
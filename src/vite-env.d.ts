@@ -1 +1,2 @@
 /// <reference types="vite/client" />
+/// <reference types="dom-webcodecs" />